@@ -0,0 +1,119 @@
+/**
+ * Which runtime tools a HISE build supports
+ *
+ * Two sources: the first HISE version shipping each REST endpoint (checked
+ * against HiseStatusResponse.server.version), and the endpoints a build
+ * answered with 404, which HiseClient remembers until HISE reconnects. When
+ * HISE adds a REST endpoint, add it to ENDPOINT_VERSIONS with the first version
+ * that ships it, and list it for the tools that call it.
+ */
+
+/**
+ * First HISE version providing each REST endpoint
+ */
+export const ENDPOINT_VERSIONS: Record<string, string> = {
+  '/api/status': '4.0.0',
+  '/api/get_script': '4.0.0',
+  '/api/set_script': '4.0.0',
+  '/api/recompile': '4.0.0',
+  '/api/screenshot': '4.1.0',
+  '/api/list_components': '4.1.0',
+  '/api/get_component_properties': '4.1.0',
+  '/api/set_component_properties': '4.1.0',
+  '/api/get_component_value': '4.1.0',
+  '/api/set_component_value': '4.1.0',
+  '/api/get_selected_components': '4.1.0',
+};
+
+/**
+ * HISE endpoints each runtime tool calls (tools not listed work with any build)
+ */
+export const TOOL_ENDPOINTS: Record<string, string[]> = {
+  hise_runtime_status: ['/api/status'],
+  // /api/status lists the include files read for file and symbol
+  hise_runtime_get_script: ['/api/get_script', '/api/status'],
+  hise_runtime_get_outline: ['/api/get_script', '/api/status'],
+  hise_runtime_find_definition: ['/api/get_script', '/api/status'],
+  hise_runtime_find_references: ['/api/get_script', '/api/status'],
+  hise_runtime_rename_symbol: ['/api/get_script', '/api/status', '/api/set_script', '/api/recompile'],
+  hise_runtime_search_scripts: ['/api/status', '/api/get_script'],
+  hise_runtime_set_script: ['/api/get_script', '/api/set_script'],
+  hise_runtime_edit_script: ['/api/get_script', '/api/set_script'],
+  hise_runtime_restore_script: ['/api/get_script', '/api/set_script'],
+  hise_runtime_recompile: ['/api/recompile'],
+  hise_runtime_get_external_file: ['/api/status'],
+  hise_runtime_edit_external_file: ['/api/status', '/api/recompile'],
+  hise_runtime_export_scripts: ['/api/status', '/api/get_script'],
+  hise_runtime_import_scripts: ['/api/status', '/api/get_script', '/api/set_script', '/api/recompile'],
+  hise_runtime_get_console: ['/api/status'],
+  hise_runtime_screenshot: ['/api/screenshot'],
+  hise_runtime_list_components: ['/api/list_components'],
+  hise_runtime_get_component_properties: ['/api/get_component_properties'],
+  hise_runtime_set_component_properties: ['/api/set_component_properties'],
+  hise_runtime_get_component_value: ['/api/get_component_value'],
+  hise_runtime_set_component_value: ['/api/set_component_value'],
+  hise_runtime_get_selected_components: ['/api/get_selected_components'],
+  hise_runtime_get_laf_functions: ['/api/get_component_properties'],
+};
+
+/**
+ * Parse "4.1.0", "4.1" or "HISE 4.1.0 (develop)" into numbers
+ *
+ * @returns [major, minor, patch], or null if there is no version number
+ */
+export function parseVersion(version: string): [number, number, number] | null {
+  const match = version.match(/(\d+)\.(\d+)(?:\.(\d+))?/);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+}
+
+function isAtLeast(version: [number, number, number], required: [number, number, number]): boolean {
+  for (let i = 0; i < 3; i++) {
+    if (version[i] !== required[i]) return version[i] > required[i];
+  }
+  return true;
+}
+
+/**
+ * Minimum HISE version a tool needs
+ *
+ * @returns The highest version among its endpoints, or null if it has no requirement
+ */
+export function getRequiredVersion(toolName: string): string | null {
+  let required: string | null = null;
+  for (const endpoint of TOOL_ENDPOINTS[toolName] || []) {
+    const version = ENDPOINT_VERSIONS[endpoint];
+    if (version && (!required || !isAtLeast(parseVersion(required)!, parseVersion(version)!))) {
+      required = version;
+    }
+  }
+  return required;
+}
+
+/**
+ * Check whether a HISE version is recent enough for a tool
+ * Unknown or unparseable versions are assumed to support everything.
+ */
+export function supportsVersion(toolName: string, version: string | null): boolean {
+  const parsed = version ? parseVersion(version) : null;
+  const required = getRequiredVersion(toolName);
+  if (!parsed || !required) return true;
+  return isAtLeast(parsed, parseVersion(required)!);
+}
+
+/**
+ * Endpoints a tool calls that the HISE build doesn't serve
+ *
+ * @param unavailableEndpoints - Endpoints HISE answered with 404
+ */
+export function getMissingEndpoints(toolName: string, unavailableEndpoints: ReadonlySet<string>): string[] {
+  return (TOOL_ENDPOINTS[toolName] || []).filter(endpoint => unavailableEndpoints.has(endpoint));
+}
+
+/**
+ * Check whether a HISE build supports a tool
+ * Endpoints that haven't been called yet are assumed to exist if the version allows them.
+ */
+export function supportsTool(toolName: string, version: string | null, unavailableEndpoints: ReadonlySet<string>): boolean {
+  return supportsVersion(toolName, version) && getMissingEndpoints(toolName, unavailableEndpoints).length === 0;
+}
@@ -0,0 +1,100 @@
+import { appendFileSync, readFileSync } from 'fs';
+import type { CassetteEntry } from './types.js';
+
+/**
+ * Build the lookup key for a request
+ */
+function requestKey(method: string, path: string, body?: Record<string, unknown>): string {
+  return `${method} ${path} ${body ? JSON.stringify(body) : ''}`;
+}
+
+/**
+ * Parse a JSONL cassette (blank lines are ignored)
+ *
+ * @throws If a line is not valid JSON or not a request entry
+ */
+export function parseCassette(text: string): CassetteEntry[] {
+  return text
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, number }) => {
+      let entry: CassetteEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid cassette line ${number}: not valid JSON`);
+      }
+      if (typeof entry?.method !== 'string' || typeof entry.path !== 'string') {
+        throw new Error(`Invalid cassette line ${number}: method and path are required`);
+      }
+      return entry;
+    });
+}
+
+/**
+ * Appends every HISE exchange to a JSONL cassette
+ * Each entry is written immediately, so a trace survives a crash.
+ */
+export class CassetteRecorder {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  record(entry: CassetteEntry): void {
+    appendFileSync(this.path, JSON.stringify(entry) + '\n', 'utf8');
+  }
+}
+
+/**
+ * Serves recorded responses instead of talking to HISE
+ *
+ * Requests are matched by method, path and body. Repeated identical requests
+ * get the recorded responses in order; once they are used up, the last one is
+ * repeated (e.g. extra status polls).
+ */
+export class CassettePlayer {
+  private queues: Map<string, CassetteEntry[]> = new Map();
+  private positions: Map<string, number> = new Map();
+
+  constructor(entries: CassetteEntry[]) {
+    for (const entry of entries) {
+      const key = requestKey(entry.method, entry.path, entry.body);
+      const queue = this.queues.get(key) || [];
+      queue.push(entry);
+      this.queues.set(key, queue);
+    }
+  }
+
+  /**
+   * Load a cassette file
+   */
+  static fromFile(path: string): CassettePlayer {
+    return new CassettePlayer(parseCassette(readFileSync(path, 'utf8')));
+  }
+
+  /**
+   * Get the recorded response for a request
+   *
+   * @throws The recorded error, or if the request was never recorded
+   */
+  next(method: string, path: string, body?: Record<string, unknown>): unknown {
+    const key = requestKey(method, path, body);
+    const queue = this.queues.get(key);
+    if (!queue) {
+      throw new Error(`No recorded response for ${method} ${path} in the replay cassette`);
+    }
+
+    const position = this.positions.get(key) || 0;
+    this.positions.set(key, position + 1);
+    const entry = queue[Math.min(position, queue.length - 1)];
+
+    if (entry.error !== undefined) {
+      throw new Error(entry.error);
+    }
+    // Callers modify responses (e.g. filtering properties), so hand out copies
+    return structuredClone(entry.response);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Polls HISE in the background and reports when it comes up or goes away
+ *
+ * The first check in start() sets the initial state without calling onChange,
+ * so the caller can use it before any client is connected.
+ */
+export class ConnectivityMonitor {
+  private check: () => Promise<boolean>;
+  private onChange: (available: boolean) => void;
+  private intervalMs: number;
+  private available = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pending: Promise<boolean> | null = null;
+
+  /**
+   * @param check - Connectivity probe (e.g. HiseClient.isAvailable)
+   * @param onChange - Called with the new state whenever it flips
+   * @param intervalMs - Time between background checks
+   */
+  constructor(check: () => Promise<boolean>, onChange: (available: boolean) => void, intervalMs: number = 5000) {
+    this.check = check;
+    this.onChange = onChange;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Last known state
+   */
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  /**
+   * Run the first check and start polling
+   *
+   * @returns The initial state
+   */
+  async start(): Promise<boolean> {
+    this.stop();
+    this.available = await this.probe();
+    this.timer = setInterval(() => { void this.poll(); }, this.intervalMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref();
+    return this.available;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check now and call onChange if the state flipped
+   * Overlapping calls share the check that is already running.
+   */
+  async poll(): Promise<boolean> {
+    if (this.pending) {
+      return this.pending;
+    }
+
+    this.pending = this.probe().then(available => {
+      if (available !== this.available) {
+        this.available = available;
+        this.onChange(available);
+      }
+      return available;
+    }).finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async probe(): Promise<boolean> {
+    try {
+      return await this.check();
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import type { ConsoleEntry, ConsoleQuery, ConsoleQueryResult, ConsoleSeverity } from './types.js';
+
+const SEVERITY_RANK: Record<ConsoleSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+/**
+ * Parse a raw console line into severity, module and message
+ *
+ * A leading "ModuleId: " prefix is only treated as the source module if it names
+ * a known script processor, so "Value: 5" stays a plain message.
+ *
+ * @param line - Raw line from a HISE response's logs array
+ * @param knownModules - Script processor IDs (from get_status)
+ * @param defaultModule - Module to attribute the line to if it has no prefix
+ */
+export function parseConsoleLine(
+  line: string,
+  knownModules: ReadonlySet<string>,
+  defaultModule: string | null = null
+): Omit<ConsoleEntry, 'id' | 'timestamp'> {
+  let message = line.replace(/\s+$/, '');
+  let module = defaultModule;
+
+  const prefix = message.match(/^([A-Za-z_][\w ]*?):\s+/);
+  if (prefix && knownModules.has(prefix[1])) {
+    module = prefix[1];
+    message = message.slice(prefix[0].length);
+  }
+
+  let severity: ConsoleSeverity = 'info';
+  if (/^(!|error\b|exception\b)|\b(error|exception):/i.test(message)) {
+    severity = 'error';
+  } else if (/^warning\b|\bwarning:/i.test(message)) {
+    severity = 'warning';
+  }
+
+  return { severity, module, message };
+}
+
+/**
+ * Ring buffer of console entries captured from HISE responses
+ * Keeps logs across tool calls and remembers where the last query stopped.
+ */
+export class ConsoleLog {
+  private entries: ConsoleEntry[] = [];
+  private capacity: number;
+  private nextId = 1;
+  private lastQueryId = 0;
+
+  constructor(capacity: number = 500) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Append an entry, evicting the oldest one if the buffer is full
+   */
+  add(entry: Omit<ConsoleEntry, 'id' | 'timestamp'>, timestamp: number = Date.now()): ConsoleEntry {
+    const stored: ConsoleEntry = {
+      id: this.nextId++,
+      timestamp: new Date(timestamp).toISOString(),
+      ...entry,
+    };
+
+    this.entries.push(stored);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+    return stored;
+  }
+
+  /**
+   * Get filtered entries and move the "since last call" marker to the newest entry
+   *
+   * @throws If pattern is not a valid regex
+   */
+  query(params: ConsoleQuery = {}): ConsoleQueryResult {
+    const { module, pattern, severity, sinceLastCall, limit = 100 } = params;
+    const regex = pattern ? new RegExp(pattern, 'i') : null;
+    const minRank = severity ? SEVERITY_RANK[severity] : 0;
+    const sinceId = sinceLastCall ? this.lastQueryId : 0;
+
+    const matches = this.entries.filter(entry =>
+      entry.id > sinceId &&
+      (!module || entry.module === module) &&
+      SEVERITY_RANK[entry.severity] >= minRank &&
+      (!regex || regex.test(entry.message))
+    );
+
+    // Entries newer than the previous query that were evicted before anyone saw them
+    const oldestId = this.entries.length ? this.entries[0].id : this.nextId;
+    const dropped = Math.max(0, oldestId - this.lastQueryId - 1);
+
+    this.lastQueryId = this.nextId - 1;
+
+    return {
+      entries: limit > 0 ? matches.slice(-limit) : matches,
+      matched: matches.length,
+      buffered: this.entries.length,
+      dropped,
+    };
+  }
+}
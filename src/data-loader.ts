@@ -17,6 +17,7 @@ import {
   LAFQueryResult,
   LAFCallbackProperty
 } from './types.js';
+import { lintHiseScript, LintResult } from './script-analysis.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -129,7 +130,7 @@ export class HISEDataLoader {
       const apiMtime = this.getFileMtime(join(dataDir, 'scripting_api.json'));
       const procMtime = this.getFileMtime(join(dataDir, 'processors.json'));
 
-      if (cache.version !== '1.1' || 
+      if (cache.version !== '1.2' || 
           cache.uiMtime !== uiMtime || 
           cache.apiMtime !== apiMtime || 
           cache.procMtime !== procMtime) {
@@ -158,7 +159,7 @@ export class HISEDataLoader {
       // Only cache the transformed data, not the indexes (they're quick to rebuild)
       const cachedAt = new Date().toISOString();
       const cache = {
-        version: '1.1',
+        version: '1.2',
         cachedAt,
         uiMtime: this.getFileMtime(join(dataDir, 'ui_component_properties.json')),
         apiMtime: this.getFileMtime(join(dataDir, 'scripting_api.json')),
@@ -251,14 +252,17 @@ export class HISEDataLoader {
 
         for (const [index, method] of Object.entries(nsData)) {
           if (typeof method !== 'object' || method === null) continue;
+          const description = method.description || '';
+          const deprecation = this.parseDeprecation(description);
           methods.push({
             id: method.name,
             namespace: namespace,
             methodName: method.name,
             returnType: method.returnType || 'var',
             parameters: this.parseParameters(method.arguments),
-            description: method.description || '',
-            example: method.example || undefined
+            description,
+            example: method.example || undefined,
+            ...deprecation
           });
         }
       }
@@ -267,6 +271,19 @@ export class HISEDataLoader {
     return methods;
   }
 
+  // The API dump has no deprecation flag, so derive it from the description text
+  // e.g. "deprecated function (use sendSyncMessage / sendAsyncMessage instead)."
+  private parseDeprecation(description: string): Pick<ScriptingAPIMethod, 'deprecated' | 'replacement'> {
+    if (!/^deprecated\b|\bis deprecated\b|\(deprecated\)/i.test(description)) {
+      return {};
+    }
+
+    const replacement = description.match(/use ([\w.]+(?:\(\))?(?:\s*\/\s*[\w.]+(?:\(\))?)*) instead/i);
+    return replacement
+      ? { deprecated: true, replacement: replacement[1] }
+      : { deprecated: true };
+  }
+
   private parseParameters(args: string): any[] {
     if (!args || args === '()') {
       return [];
@@ -456,6 +473,21 @@ this.apiMethodIndex.set(key, method);
     return this.apiMethodIndex.get(key) || null;
   }
 
+  // Offline lint of a HiseScript snippet against the Scripting API
+  async lintScript(code: string): Promise<LintResult> {
+    const result = lintHiseScript(code, this.apiMethodIndex);
+
+    for (const issue of result.issues) {
+      if (issue.rule !== 'unknown-method') continue;
+      const similar = await this.findSimilar(issue.apiCall, 3, 'api');
+      if (similar.length > 0) {
+        issue.suggestion = `Did you mean: ${similar.join(', ')}`;
+      }
+    }
+
+    return result;
+  }
+
   queryModuleParameter(moduleParameter: string): ModuleParameter | null {
     const key = this.normalizeQuery(moduleParameter);
     return this.parameterIndex.get(key) || null;
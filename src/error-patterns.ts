@@ -1,16 +1,26 @@
 /**
- * Error Pattern Definitions for HISE Compile Errors
- * 
- * These patterns match common HiseScript errors and provide helpful suggestions.
+ * Error Pattern Registry for HISE Compile Errors
+ *
+ * Patterns match common HiseScript errors and provide helpful suggestions.
  * Especially useful for LLMs that are trained on JavaScript but writing HiseScript.
- * 
- * To add new patterns:
+ *
+ * Patterns are loaded from data/error_patterns.json and reloaded when the file
+ * changes, so new patterns don't need a rebuild. To add a pattern:
  * 1. Observe the exact error message from HISE
- * 2. Create a pattern that matches it
+ * 2. Add an entry whose pattern matches it
  * 3. Optionally add a codePattern to match the actual code
  * 4. Write a clear, actionable suggestion
+ * 5. Optionally add a fix (regex rewrite) that edit_script can apply directly
  */
 
+import { readFileSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import type { AutoFix, ErrorCodeContext, ErrorPatternStats } from './types.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_PATTERNS_PATH = join(__dirname, '..', 'data', 'error_patterns.json');
+
 export interface ErrorPattern {
   /** Unique identifier for tracking/analytics */
   id: string;
@@ -20,57 +30,234 @@ export interface ErrorPattern {
   codePattern: RegExp | null;
   /** Human-readable fix suggestion */
   suggestion: string;
+  /** Optional: regex rewrite over the code context that fixes the error */
+  fix: ErrorPatternFix | null;
 }
 
-export const ERROR_PATTERNS: ErrorPattern[] = [
-  // Graphics methods expect arrays, not separate arguments
-  {
-    id: "graphics-array-args",
-    pattern: /argument amount mismatch.*Expected:\s*1/i,
-    codePattern: /\.(fillRect|drawRect|drawRoundedRectangle|fillRoundedRectangle|drawEllipse|fillEllipse|drawLine|drawHorizontalLine|drawDropShadow)\s*\(\s*[\d.-]+\s*,/,
-    suggestion: "Graphics methods expect arrays: g.fillRect([x, y, w, h]) not g.fillRect(x, y, w, h)"
-  },
-
-  // Console.assertTrue only takes one argument
-  {
-    id: "assert-with-message",
-    pattern: /Too many arguments in API call Console\.assertTrue\(\)\. Expected: 1/i,
-    codePattern: /Console\.assertTrue\s*\([^,]+,/,
-    suggestion: "Console.assertTrue(condition) only takes one argument. Use Console.assertWithMessage(condition, \"message\") for a custom error message"
-  },
-
-  // Can't use 'const' inside inline functions - must be global
-  {
-    id: "const-in-inline",
-    pattern: /const var declaration must be on global level/i,
-    codePattern: null,
-    suggestion: "const/reg/global can only be declared at the top level. Inside inline functions, use 'var' instead"
-  },
-];
+export interface ErrorPatternFix {
+  search: RegExp;
+  /** Replacement string ($1, $2... refer to search groups) */
+  replace: string;
+  description: string;
+}
 
 /**
- * Find matching error pattern for an error message
- * 
- * @param errorMessage - The error message from HISE
- * @param code - Optional code context to match against codePattern
- * @returns The matching pattern's suggestion, or null if no match
+ * Error pattern as stored in data/error_patterns.json (regexes as strings)
  */
-export function findPatternMatch(errorMessage: string, code?: string): string | null {
-  for (const pattern of ERROR_PATTERNS) {
-    // Check if error message matches
-    if (!pattern.pattern.test(errorMessage)) {
-      continue;
+export interface ErrorPatternDefinition {
+  id: string;
+  pattern: string;
+  /** Flags for pattern (default: "i"). codePattern is always case-sensitive */
+  flags?: string;
+  codePattern?: string | null;
+  suggestion: string;
+  fix?: {
+    search: string;
+    replace: string;
+    /** Flags for search (default: "g") */
+    flags?: string;
+    /** Default: the pattern's suggestion */
+    description?: string;
+  } | null;
+}
+
+/**
+ * Compile pattern definitions into regexes
+ * Invalid entries are skipped and reported, so one bad entry doesn't disable the rest.
+ *
+ * @param data - Parsed content of error_patterns.json
+ */
+export function parseErrorPatterns(data: unknown): { patterns: ErrorPattern[]; errors: string[] } {
+  const patterns: ErrorPattern[] = [];
+  const errors: string[] = [];
+
+  const definitions = (data as { patterns?: unknown })?.patterns;
+  if (!Array.isArray(definitions)) {
+    return { patterns, errors: ['Expected a "patterns" array'] };
+  }
+
+  const ids = new Set<string>();
+  definitions.forEach((def: Partial<ErrorPatternDefinition>, index) => {
+    const label = def?.id ? `'${def.id}'` : `#${index}`;
+    if (!def || typeof def.id !== 'string' || typeof def.pattern !== 'string' || typeof def.suggestion !== 'string') {
+      errors.push(`Pattern ${label}: id, pattern and suggestion are required strings`);
+      return;
+    }
+    if (ids.has(def.id)) {
+      errors.push(`Pattern ${label}: duplicate id`);
+      return;
     }
 
-    // If there's a code pattern, check that too
-    if (pattern.codePattern && code) {
-      if (!pattern.codePattern.test(code)) {
-        continue;
+    try {
+      // Global/sticky flags would make test() stateful
+      const flags = (def.flags ?? 'i').replace(/[gy]/g, '');
+      patterns.push({
+        id: def.id,
+        pattern: new RegExp(def.pattern, flags),
+        codePattern: def.codePattern ? new RegExp(def.codePattern) : null,
+        suggestion: def.suggestion,
+        fix: def.fix
+          ? {
+              search: new RegExp(def.fix.search, def.fix.flags ?? 'g'),
+              replace: def.fix.replace,
+              description: def.fix.description || def.suggestion,
+            }
+          : null,
+      });
+      ids.add(def.id);
+    } catch (err) {
+      errors.push(`Pattern ${label}: ${err instanceof Error ? err.message : 'invalid regex'}`);
+    }
+  });
+
+  return { patterns, errors };
+}
+
+/**
+ * Error patterns loaded from a JSON file, with per-pattern hit counters
+ */
+export class ErrorPatternRegistry {
+  private source: string;
+  private patterns: ErrorPattern[] = [];
+  private loadErrors: string[] = [];
+  private loadedMtime: number | null = null;
+  private hits: Map<string, number> = new Map();
+
+  constructor(source: string = DEFAULT_PATTERNS_PATH) {
+    this.source = source;
+  }
+
+  /**
+   * (Re)load the patterns if the file changed since the last load
+   * If the file becomes unreadable, the previously loaded patterns are kept.
+   */
+  private ensureLoaded(): void {
+    let mtime: number;
+    try {
+      mtime = statSync(this.source).mtimeMs;
+    } catch {
+      if (this.loadedMtime === null) {
+        this.loadErrors = [`Pattern file not found: ${this.source}`];
       }
+      return;
     }
+    if (mtime === this.loadedMtime) return;
 
-    return pattern.suggestion;
+    this.loadedMtime = mtime;
+    try {
+      const { patterns, errors } = parseErrorPatterns(JSON.parse(readFileSync(this.source, 'utf8')));
+      this.patterns = patterns;
+      this.loadErrors = errors;
+    } catch (err) {
+      this.loadErrors = [`Failed to load ${this.source}: ${err instanceof Error ? err.message : 'Unknown error'}`];
+    }
+    if (this.loadErrors.length) {
+      console.error('Error pattern issues:', this.loadErrors.join('; '));
+    }
+  }
+
+  /**
+   * Get the currently loaded patterns
+   */
+  getPatterns(): ErrorPattern[] {
+    this.ensureLoaded();
+    return this.patterns;
+  }
+
+  /**
+   * Find all patterns that apply to an error and count the hits
+   *
+   * @param errorMessage - The error message from HISE
+   * @param code - Optional code context to match against codePattern
+   * @returns Matching patterns in file order (empty if none match)
+   */
+  findMatches(errorMessage: string, code?: string): ErrorPattern[] {
+    const matches = this.getPatterns().filter(pattern => {
+      // Check if error message matches
+      if (!pattern.pattern.test(errorMessage)) {
+        return false;
+      }
+      // If there's a code pattern and code, check that too
+      return !(pattern.codePattern && code && !pattern.codePattern.test(code));
+    });
+
+    for (const match of matches) {
+      this.hits.set(match.id, (this.hits.get(match.id) || 0) + 1);
+    }
+    return matches;
+  }
+
+  /**
+   * Get load status and hit counts (patterns that never matched report 0)
+   */
+  getStats(): ErrorPatternStats {
+    const patterns = this.getPatterns();
+    return {
+      source: this.source,
+      loaded: patterns.length,
+      loadErrors: this.loadErrors,
+      hits: Object.fromEntries(patterns.map(p => [p.id, this.hits.get(p.id) || 0])),
+    };
+  }
+}
+
+let defaultRegistry: ErrorPatternRegistry | null = null;
+
+/**
+ * Get the shared registry backed by data/error_patterns.json
+ */
+export function getErrorPatternRegistry(): ErrorPatternRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new ErrorPatternRegistry();
+  }
+  return defaultRegistry;
+}
+
+/**
+ * Build an edit_script-compatible fix by applying a pattern's rewrite to the code context
+ *
+ * The rewrite runs over the whole context; oldString/newString cover only the lines
+ * that changed, so they can be passed to edit_script as-is.
+ *
+ * @param pattern - A matching error pattern
+ * @param codeContext - Code context of the error (with line number prefixes)
+ * @returns The fix, or null if the pattern has no fix or it doesn't change the code
+ */
+export function buildAutoFix(pattern: ErrorPattern, codeContext?: ErrorCodeContext): AutoFix | null {
+  if (!pattern.fix || !codeContext) return null;
+
+  // Strip the "14: " prefixes added by formatCodeWithLineNumbers
+  const code = codeContext.code
+    .split('\n')
+    .map(line => line.replace(/^\d+: /, ''))
+    .join('\n');
+
+  pattern.fix.search.lastIndex = 0;
+  const fixed = code.replace(pattern.fix.search, pattern.fix.replace);
+  if (fixed === code) return null;
+
+  const oldLines = code.split('\n');
+  const newLines = fixed.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
   }
 
-  return null;
+  return {
+    patternId: pattern.id,
+    description: pattern.fix.description,
+    // Anonymous functions report "function" - their code context comes from onInit
+    callback: codeContext.callback === 'function' ? 'onInit' : codeContext.callback,
+    oldString: oldLines.slice(prefix, oldLines.length - suffix).join('\n'),
+    newString: newLines.slice(prefix, newLines.length - suffix).join('\n'),
+  };
 }
@@ -7,7 +7,10 @@
  * @see ADDING_RUNTIME_BRIDGES.md for documentation on adding new bridge tools
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, realpath, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
 import {
   HiseStatusResponse,
   HiseScriptResponse,
@@ -28,12 +31,85 @@ import {
   ErrorCodeContext,
   CachedScript,
   EditScriptParams,
+  MultiEditScriptParams,
+  ScriptHistoryResult,
+  RestoreScriptParams,
+  ScriptPreviewResult,
+  MatchStrategy,
+  ExternalFileContent,
+  EditExternalFileParams,
+  EditExternalFileResult,
+  ConsoleQuery,
+  ConsoleQueryResult,
+  HiseInstanceConfig,
+  CircuitBreakerState,
+  ProgressStep,
+  ToolRequestContext,
+  ScriptExportManifest,
+  ExportScriptsResult,
+  ImportScriptsParams,
+  ImportScriptsResult,
+  SearchScriptsParams,
+  SearchScriptsResult,
+  ScriptSearchHit,
+  ProcessorOutline,
+  OutlineSymbol,
+  GetScriptRangeParams,
+  ScriptRangeResult,
+  SymbolLocation,
+  FindDefinitionResult,
+  FindReferencesResult,
+  RenameSymbolParams,
+  RenameSymbolResult,
 } from './types.js';
 import {
+  applyScriptEdits,
+  createUnifiedDiff,
   editStringInScript,
+  resolvePathInFolder,
   shouldAllowSetScript,
   getSetScriptMaxLines,
 } from './script-utils.js';
+import { ScriptHistory } from './script-history.js';
+import { ConsoleLog, parseConsoleLine } from './console-log.js';
+import { CassettePlayer, CassetteRecorder } from './cassette.js';
+import { loadHiseInstances, parseEnvInt } from './instance-config.js';
+import { CircuitBreaker, computeBackoff, sleep } from './retry.js';
+import { validateHiseResponse } from './response-schemas.js';
+import {
+  EXPORT_INCLUDES_FOLDER,
+  EXPORT_MANIFEST,
+  classifyImport,
+  parseExportManifest,
+  toExportFolderName,
+} from './script-export.js';
+import { buildSearchRegex, findMatches } from './script-search.js';
+import { findIdentifierReferences, isReservedWord, isValidSymbolName, outlineHiseScript } from './script-analysis.js';
+
+/**
+ * Context of the MCP tool call currently being handled
+ * Every HISE request made while handling it (including nested ones) is cancelled
+ * with its signal and reports progress to it.
+ */
+const requestContext = new AsyncLocalStorage<ToolRequestContext>();
+
+const REQUEST_CANCELLED = 'Request was cancelled by the MCP client';
+
+/**
+ * Run fn with an MCP tool call's context attached to all HiseClient calls inside it
+ */
+export function runInRequestContext<T>(context: ToolRequestContext, fn: () => Promise<T>): Promise<T> {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * Report a progress stage of the current tool call (no-op if the client didn't ask for progress)
+ *
+ * @param step - Position in a counted loop, sent as progress/total
+ */
+export function reportProgress(message: string, step?: ProgressStep): void {
+  requestContext.getStore()?.onProgress?.(message, step);
+}
 
 /**
  * Compute a short hash of script content for cache validation
@@ -71,6 +147,13 @@ export function parseCallstackEntry(entry: string): ParsedCallstack | null {
   };
 }
 
+/**
+ * Format a location like a HISE callstack entry (the reverse of parseCallstackEntry)
+ */
+export function formatCallstackEntry(callback: string, moduleId: string, line: number, column: number): string {
+  return `${callback}() at ${moduleId}.js:${line}:${column}`;
+}
+
 /**
  * Format code lines with line numbers
  */
@@ -91,6 +174,19 @@ export interface HiseClientConfig {
     script: number;      // For script compilation (can be slow)
     screenshot: number;  // For screenshot capture
   };
+  scriptHistoryLimit: number;  // Snapshots kept per callback for undo
+  consoleBufferSize: number;   // Console entries kept across get_console calls
+  recordCassette: string | null;  // Append every request/response to this JSONL file
+  replayCassette: string | null;  // Serve responses from this JSONL file instead of HISE
+  retry: {
+    attempts: number;      // Extra attempts for GET requests after a timeout/connection error
+    baseDelayMs: number;   // First backoff delay, doubled per attempt
+    maxDelayMs: number;
+  };
+  circuitBreaker: {
+    failureThreshold: number;  // Consecutive failed requests before the circuit opens
+    cooldownMs: number;        // How long requests fail immediately once open
+  };
 }
 
 /**
@@ -103,8 +199,38 @@ const DEFAULT_CONFIG: HiseClientConfig = {
     script: 30000,     // 30 seconds (compilation can be slow)
     screenshot: 10000, // 10 seconds
   },
+  scriptHistoryLimit: 20,
+  consoleBufferSize: 500,
+  recordCassette: process.env.HISE_RECORD_CASSETTE || null,
+  replayCassette: process.env.HISE_REPLAY_CASSETTE || null,
+  retry: {
+    attempts: parseEnvInt(process.env.HISE_RETRY_ATTEMPTS, 2),
+    baseDelayMs: 250,
+    maxDelayMs: 2000,
+  },
+  circuitBreaker: {
+    failureThreshold: 3,
+    cooldownMs: parseEnvInt(process.env.HISE_CIRCUIT_COOLDOWN, 10000),
+  },
 };
 
+/**
+ * A processor's callbacks and include()d files, for searches across all of them
+ */
+interface ProcessorSources {
+  callbacks: Record<string, string>;
+  hashes: Record<string, string>;
+  files: Record<string, { path: string; content: string }>;  // Keyed by path relative to the scripts folder
+}
+
+/**
+ * One callback or include()d file of a processor
+ */
+interface SourceText {
+  source: Pick<SymbolLocation, 'moduleId' | 'callback' | 'file'>;
+  content: string;
+}
+
 /**
  * HISE REST API Client
  * 
@@ -114,7 +240,16 @@ const DEFAULT_CONFIG: HiseClientConfig = {
 export class HiseClient {
   private config: HiseClientConfig;
   private cachedCompileTimeout: number | null = null;
+  private serverVersion: string | null = null;
+  private unavailableEndpoints: Set<string> = new Set();
+  private reachable = false;
   private scriptCache: Map<string, CachedScript> = new Map();
+  private scriptHistory: ScriptHistory;
+  private consoleLog: ConsoleLog;
+  private knownModules: Set<string> = new Set();
+  private cassetteRecorder: CassetteRecorder | null = null;
+  private cassettePlayer: CassettePlayer | null = null;
+  private circuitBreaker: CircuitBreaker;
 
   constructor(config?: Partial<HiseClientConfig>) {
     this.config = {
@@ -124,7 +259,27 @@ export class HiseClient {
         ...DEFAULT_CONFIG.timeouts,
         ...config?.timeouts,
       },
+      retry: {
+        ...DEFAULT_CONFIG.retry,
+        ...config?.retry,
+      },
+      circuitBreaker: {
+        ...DEFAULT_CONFIG.circuitBreaker,
+        ...config?.circuitBreaker,
+      },
     };
+    this.scriptHistory = new ScriptHistory(this.config.scriptHistoryLimit);
+    this.consoleLog = new ConsoleLog(this.config.consoleBufferSize);
+    this.circuitBreaker = new CircuitBreaker(
+      this.config.circuitBreaker.failureThreshold,
+      this.config.circuitBreaker.cooldownMs
+    );
+
+    if (this.config.replayCassette) {
+      this.cassettePlayer = CassettePlayer.fromFile(this.config.replayCassette);
+    } else if (this.config.recordCassette) {
+      this.cassetteRecorder = new CassetteRecorder(this.config.recordCassette);
+    }
   }
 
   /**
@@ -141,6 +296,13 @@ export class HiseClient {
     return this.config.baseUrl;
   }
 
+  /**
+   * Get the circuit breaker state (open while HISE keeps failing)
+   */
+  getCircuitState(): CircuitBreakerState {
+    return this.circuitBreaker.getState();
+  }
+
   // ==========================================================================
   // Script Cache Management
   // ==========================================================================
@@ -183,10 +345,200 @@ export class HiseClient {
     }
   }
 
+  // ==========================================================================
+  // Script History (Undo)
+  // ==========================================================================
+
+  /**
+   * Read the current content of callbacks before they get overwritten
+   * 
+   * Always fetched from HISE - the cache may be stale if the script was edited there.
+   * Callbacks that can't be read (new callback or HISE error) are left out.
+   */
+  private async snapshotCallbacks(moduleId: string, callbacks: string[]): Promise<Record<string, string>> {
+    const snapshots: Record<string, string> = {};
+    for (const callback of callbacks) {
+      try {
+        const live = await this.getScript(moduleId, callback);
+        const script = live.success ? live.callbacks?.[callback] : undefined;
+        if (script !== undefined) {
+          snapshots[callback] = script;
+        }
+      } catch {
+        // New callback or HISE error - nothing to snapshot
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Add snapshots to the history once the write they precede went through
+   */
+  private recordSnapshots(moduleId: string, snapshots: Record<string, string>, written: string[]): void {
+    for (const callback of written) {
+      const script = snapshots[callback];
+      if (script === undefined) continue;
+      this.scriptHistory.record(this.getScriptCacheKey(moduleId, callback), {
+        script,
+        timestamp: Date.now(),
+        hash: computeScriptHash(script),
+      });
+    }
+  }
+
+  /**
+   * List pre-write snapshots for a module (newest first)
+   * 
+   * @param moduleId - The script processor's module ID
+   * @param callback - Optional: only list snapshots of this callback
+   */
+  listScriptHistory(moduleId: string, callback?: string): ScriptHistoryResult {
+    const keys = callback
+      ? [this.getScriptCacheKey(moduleId, callback)]
+      : this.scriptHistory.keys().filter(k => k.startsWith(`${moduleId}:`));
+
+    const entries = keys.flatMap(key => {
+      const callbackName = key.slice(moduleId.length + 1);
+      return this.scriptHistory.list(key).map(snapshot => ({
+        callback: callbackName,
+        hash: snapshot.hash,
+        timestamp: new Date(snapshot.timestamp).toISOString(),
+        lineCount: snapshot.script.split('\n').length,
+      }));
+    });
+
+    entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return { moduleId, entries };
+  }
+
+  /**
+   * Restore a callback to a previous snapshot
+   * 
+   * The content being replaced is snapshotted as well, so a restore can be undone.
+   * 
+   * @param params - Parameters including moduleId, callback, optional hash and compile flag
+   * @param errorContextLines - Lines of context around errors (default: 1)
+   */
+  async restoreScript(params: RestoreScriptParams, errorContextLines: number = 1): Promise<HiseCompileResponse & { restoredHash: string }> {
+    const { moduleId, callback, hash, compile } = params;
+
+    const snapshot = this.scriptHistory.find(this.getScriptCacheKey(moduleId, callback), hash);
+    if (!snapshot) {
+      throw new Error(
+        hash
+          ? `No unique snapshot '${hash}' for ${moduleId}.${callback}. Use list_script_history to see available snapshots.`
+          : `No snapshots recorded for ${moduleId}.${callback}.`
+      );
+    }
+
+    const result = await this.setScriptInternal(
+      { moduleId, callbacks: { [callback]: snapshot.script }, compile: compile ?? true },
+      errorContextLines
+    );
+
+    return { ...result, restoredHash: snapshot.hash };
+  }
+
+  // ==========================================================================
+  // Optimistic Concurrency
+  // ==========================================================================
+
+  /**
+   * Look up the content the agent read for each expected hash
+   * 
+   * Must run before the live scripts are fetched, since fetching overwrites the cache.
+   * Falls back to the snapshot history. Used only to build a diff on conflict.
+   */
+  private findExpectedVersions(
+    moduleId: string,
+    expectedHashes?: Record<string, string>
+  ): Record<string, string> {
+    const versions: Record<string, string> = {};
+    for (const [callback, hash] of Object.entries(expectedHashes || {})) {
+      const cached = this.getCachedScript(moduleId, callback);
+      if (cached?.hash === hash) {
+        versions[callback] = cached.script;
+        continue;
+      }
+      const snapshot = this.scriptHistory.find(this.getScriptCacheKey(moduleId, callback), hash);
+      if (snapshot?.hash === hash) {
+        versions[callback] = snapshot.script;
+      }
+    }
+    return versions;
+  }
+
+  /**
+   * Reject a write if a callback was changed in HISE since the agent read it
+   * 
+   * Only callbacks that are about to be written are checked.
+   * 
+   * @param callbacks - Callbacks about to be written
+   * @param liveScripts - Freshly fetched content per callback
+   * @param expectedVersions - Content for the expected hashes (from findExpectedVersions)
+   */
+  private assertExpectedHashes(
+    moduleId: string,
+    expectedHashes: Record<string, string> | undefined,
+    callbacks: string[],
+    liveScripts: Record<string, string>,
+    expectedVersions: Record<string, string>
+  ): void {
+    if (!expectedHashes) return;
+
+    for (const callback of callbacks) {
+      const expectedHash = expectedHashes[callback];
+      if (!expectedHash) continue;
+
+      const live = liveScripts[callback];
+      if (live === undefined) {
+        throw new Error(
+          `Cannot verify expectedHash for ${moduleId}.${callback}: failed to read the live script. No changes were sent to HISE.`
+        );
+      }
+
+      const liveHash = computeScriptHash(live);
+      if (liveHash === expectedHash) continue;
+
+      const expected = expectedVersions[callback];
+      const diff = expected !== undefined
+        ? createUnifiedDiff(
+            expected,
+            live,
+            `${moduleId}.${callback} (expected ${expectedHash})`,
+            `${moduleId}.${callback} (live ${liveHash})`
+          )
+        : '(expected version is no longer cached - no diff available)';
+
+      throw new Error(
+        `${moduleId}.${callback} was modified in HISE since it was read ` +
+        `(expected hash ${expectedHash}, live hash ${liveHash}). No changes were sent to HISE. ` +
+        `Re-read the script with get_script and apply your change to the current version.\n\n${diff}`
+      );
+    }
+  }
+
   /**
    * Check if HISE is available and responding
    */
   async isAvailable(): Promise<boolean> {
+    if (this.cassettePlayer) {
+      return true;
+    }
+
+    const available = await this.fetchStatusVersion();
+    // HISE came back, maybe rebuilt under the same version - give its missing endpoints another try
+    if (available && !this.reachable) {
+      this.unavailableEndpoints.clear();
+    }
+    this.reachable = available;
+    return available;
+  }
+
+  /**
+   * Ping /api/status and keep track of the version it reports
+   */
+  private async fetchStatusVersion(): Promise<boolean> {
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.config.timeouts.status);
@@ -196,15 +548,49 @@ export class HiseClient {
       });
 
       clearTimeout(timeoutId);
-      return response.ok;
+      if (!response.ok) {
+        return false;
+      }
+
+      // Keep track of the version (HISE may have been restarted with a different build)
+      const status = await response.json().catch(() => null) as Partial<HiseStatusResponse> | null;
+      if (typeof status?.server?.version === 'string') {
+        this.setServerVersion(status.server.version);
+      }
+      return true;
     } catch {
       return false;
     }
   }
 
+  /**
+   * HISE version from the last status response (null until HISE was reached)
+   */
+  getServerVersion(): string | null {
+    return this.serverVersion;
+  }
+
+  /**
+   * Endpoints the connected HISE build answered with 404 since it was last reached (see capabilities.ts)
+   */
+  getUnavailableEndpoints(): ReadonlySet<string> {
+    return this.unavailableEndpoints;
+  }
+
+  /**
+   * Another build may serve other endpoints, so start over when the version changes
+   */
+  private setServerVersion(version: string): void {
+    if (this.serverVersion !== null && this.serverVersion !== version) {
+      this.unavailableEndpoints.clear();
+    }
+    this.serverVersion = version;
+  }
+
   /**
    * Get HISE status including project info and script processors.
-   * Also caches the compileTimeout for use in subsequent script operations.
+   * Also caches the compileTimeout for use in subsequent script operations
+   * and the HISE version for capability checks.
    */
   async getStatus(): Promise<HiseStatusResponse> {
     const status = await this.fetchWithTimeout<HiseStatusResponse>(
@@ -214,6 +600,10 @@ export class HiseClient {
       this.config.timeouts.status
     );
 
+    if (status.success) {
+      this.setServerVersion(status.server.version);
+    }
+
     // Cache the compile timeout from HISE (convert from seconds to milliseconds)
     if (status.success && status.server?.compileTimeout) {
       const timeoutSeconds = parseInt(status.server.compileTimeout, 10);
@@ -237,6 +627,7 @@ export class HiseClient {
       params.append('callback', callback);
     }
 
+    reportProgress(`Fetching script ${moduleId}${callback ? `.${callback}` : ''}`);
     const result = await this.fetchWithTimeout<HiseScriptResponse>(
       `/api/get_script?${params.toString()}`,
       'GET',
@@ -246,14 +637,116 @@ export class HiseClient {
 
     // Cache each callback individually
     if (result.success && result.callbacks) {
+      result.hashes = {};
       for (const [callbackName, script] of Object.entries(result.callbacks)) {
         this.cacheScript(moduleId, callbackName, script);
+        result.hashes[callbackName] = computeScriptHash(script);
       }
     }
 
     return result;
   }
 
+  /**
+   * Get part of a callback or include()d file, by line range or by outline symbol
+   *
+   * With callback and hash, the cached copy is used while its hash matches, so
+   * reading several regions after get_outline doesn't refetch the script.
+   * Without callback or file, a symbol is looked up in all callbacks and include files.
+   *
+   * @throws If the range or symbol doesn't exist, or a symbol name is ambiguous
+   */
+  async getScriptRange(params: GetScriptRangeParams): Promise<ScriptRangeResult> {
+    const { moduleId, callback, file, symbol, hash } = params;
+    if (symbol && (params.startLine !== undefined || params.endLine !== undefined)) {
+      throw new Error('Pass either symbol or startLine/endLine, not both');
+    }
+    if (callback && file) {
+      throw new Error('Pass either callback or file, not both');
+    }
+    if (!symbol && !callback && !file) {
+      throw new Error('callback or file is required when reading a line range');
+    }
+    for (const [param, value] of [['startLine', params.startLine], ['endLine', params.endLine]] as const) {
+      if (value !== undefined && !Number.isInteger(value)) {
+        throw new Error(`${param} must be a whole number, got ${value}`);
+      }
+    }
+
+    // Candidate callbacks and include files with their content
+    let texts: SourceText[];
+    let fromCache = false;
+    const cached = callback && hash ? this.getCachedScript(moduleId, callback) : null;
+    if (cached && cached.hash === hash) {
+      texts = [{ source: { moduleId, callback }, content: cached.script }];
+      fromCache = true;
+    } else if (file) {
+      const target = await this.resolveExternalFile(file);
+      texts = [{ source: { moduleId, file: target.file }, content: await readFile(target.path, 'utf8') }];
+    } else if (callback) {
+      const script = await this.getScript(moduleId, callback);
+      if (!script.success) {
+        throw new Error(`Failed to get script of ${moduleId}: ${script.errors?.[0]?.errorMessage || 'Unknown error'}`);
+      }
+      if (script.callbacks[callback] === undefined) {
+        throw new Error(`${moduleId} has no callback ${callback}`);
+      }
+      texts = [{ source: { moduleId, callback }, content: script.callbacks[callback] }];
+    } else {
+      texts = this.listSourceTexts(moduleId, await this.readProcessorSources(moduleId));
+    }
+
+    let target: SourceText;
+    let startLine: number;
+    let endLine: number;
+    let found: OutlineSymbol | undefined;
+
+    if (symbol) {
+      const matches = texts.flatMap(text =>
+        outlineHiseScript(text.content).symbols
+          .filter(s => s.name === symbol || (s.namespace && `${s.namespace}.${s.name}` === symbol))
+          .map(s => ({ text, symbol: s }))
+      );
+      if (matches.length === 0) {
+        throw new Error(`Symbol ${symbol} not found in ${moduleId}${callback ? `.${callback}` : file ? ` (${file})` : ''} - use get_outline to list the symbols`);
+      }
+      if (matches.length > 1) {
+        const candidates = matches.map(m =>
+          `${m.symbol.namespace ? `${m.symbol.namespace}.` : ''}${m.symbol.name} (${m.text.source.callback ?? m.text.source.file}:${m.symbol.startLine})`
+        );
+        throw new Error(`Symbol ${symbol} is ambiguous: ${candidates.join(', ')}. Pass a namespace-qualified name, a callback or a file.`);
+      }
+      ({ text: target, symbol: found } = matches[0]);
+      startLine = found.startLine;
+      endLine = found.endLine;
+    } else {
+      target = texts[0];
+      startLine = params.startLine ?? 1;
+      endLine = params.endLine ?? Number.MAX_SAFE_INTEGER;
+    }
+
+    const { callback: targetCallback, file: targetFile } = target.source;
+    const lines = target.content.split('\n');
+    endLine = Math.min(endLine, lines.length);
+    if (startLine < 1 || startLine > endLine) {
+      const name = targetCallback ? `${moduleId}.${targetCallback}` : targetFile;
+      throw new Error(`Invalid line range ${startLine}-${params.endLine ?? 'end'} for ${name} (${lines.length} lines)`);
+    }
+
+    const result: ScriptRangeResult = {
+      moduleId,
+      ...(targetCallback ? { callback: targetCallback } : { file: targetFile }),
+      startLine,
+      endLine,
+      lineCount: lines.length,
+      code: formatCodeWithLineNumbers(lines.slice(startLine - 1, endLine).join('\n'), startLine),
+      hash: computeScriptHash(target.content),
+      fromCache,
+    };
+    if (found) result.symbol = found;
+    return result;
+  }
+
   /**
    * Set script content and optionally compile
    * 
@@ -264,7 +757,31 @@ export class HiseClient {
    * @param errorContextLines - Lines of context around errors (default: 1)
    */
   async setScript(params: SetScriptParams, errorContextLines: number = 1): Promise<HiseCompileResponse> {
+    const liveScripts = await this.validateSetScript(params);
+    return this.setScriptInternal(params, errorContextLines, liveScripts);
+  }
+
+  /**
+   * Preview set_script as a unified diff without sending anything to HISE
+   * 
+   * Applies the same guard and expectedHash checks as setScript.
+   * 
+   * @param params - Script parameters including moduleId and callbacks object
+   */
+  async previewSetScript(params: SetScriptParams): Promise<ScriptPreviewResult> {
+    const liveScripts = await this.validateSetScript(params);
+    return this.buildScriptPreview(params.moduleId, liveScripts, params.callbacks);
+  }
+
+  /**
+   * Run the set_script guard and expectedHash checks
+   * 
+   * @returns The live content of every callback that could be read
+   */
+  private async validateSetScript(params: SetScriptParams): Promise<Record<string, string>> {
     const maxLines = getSetScriptMaxLines();
+    const expectedVersions = this.findExpectedVersions(params.moduleId, params.expectedHashes);
+    const liveScripts: Record<string, string> = {};
 
     // Check each callback against the guard
     for (const [callbackName, _newContent] of Object.entries(params.callbacks)) {
@@ -272,6 +789,9 @@ export class HiseClient {
       try {
         const existing = await this.getScript(params.moduleId, callbackName);
         const existingContent = existing.callbacks?.[callbackName] || '';
+        if (existing.success) {
+          liveScripts[callbackName] = existingContent;
+        }
 
         if (!shouldAllowSetScript(existingContent, maxLines)) {
           const lineCount = existingContent.split('\n').length;
@@ -289,14 +809,70 @@ export class HiseClient {
       }
     }
 
-    return this.setScriptInternal(params, errorContextLines);
+    this.assertExpectedHashes(
+      params.moduleId,
+      params.expectedHashes,
+      Object.keys(params.callbacks),
+      liveScripts,
+      expectedVersions
+    );
+
+    return liveScripts;
+  }
+
+  /**
+   * Build a dry-run result from the current and new content of callbacks
+   */
+  private buildScriptPreview(
+    moduleId: string,
+    currentScripts: Record<string, string>,
+    newCallbacks: Record<string, string>
+  ): ScriptPreviewResult {
+    const diffs: string[] = [];
+    const changedCallbacks: string[] = [];
+    const hashes: Record<string, string> = {};
+
+    for (const [callback, newScript] of Object.entries(newCallbacks)) {
+      const current = currentScripts[callback] ?? '';
+      hashes[callback] = computeScriptHash(current);
+
+      const diff = createUnifiedDiff(current, newScript, `${moduleId}.${callback}`, `${moduleId}.${callback} (new)`);
+      if (diff) {
+        diffs.push(diff);
+        changedCallbacks.push(callback);
+      }
+    }
+
+    return {
+      dryRun: true,
+      moduleId,
+      changedCallbacks,
+      diff: diffs.join('\n'),
+      hashes,
+    };
   }
 
   /**
    * Internal method to set script without guard check
    * Used by fixScriptLine and patchScript which have already validated the edit
+   *
+   * @param liveScripts - Content the caller just fetched and checked against expectedHashes,
+   *   snapshotted as is (without it, the callbacks are fetched and checked here)
    */
-  private async setScriptInternal(params: SetScriptParams, errorContextLines: number = 1): Promise<HiseCompileResponse> {
+  private async setScriptInternal(
+    params: SetScriptParams,
+    errorContextLines: number = 1,
+    liveScripts?: Record<string, string>
+  ): Promise<HiseCompileResponse> {
+    // Snapshot current content so the write can be undone
+    let snapshots = liveScripts;
+    if (!snapshots) {
+      const expectedVersions = this.findExpectedVersions(params.moduleId, params.expectedHashes);
+      snapshots = await this.snapshotCallbacks(params.moduleId, Object.keys(params.callbacks));
+      this.assertExpectedHashes(params.moduleId, params.expectedHashes, Object.keys(params.callbacks), snapshots, expectedVersions);
+    }
+
+    reportProgress(params.compile === false ? `Writing ${params.moduleId}` : `Compiling ${params.moduleId}`);
     const result = await this.fetchWithTimeout<HiseCompileResponse>(
       '/api/set_script',
       'POST',
@@ -308,11 +884,29 @@ export class HiseClient {
       this.getCompileTimeout()
     );
 
+    // HISE keeps the new content even if it fails to compile
+    this.recordSnapshots(
+      params.moduleId,
+      snapshots,
+      result.updatedCallbacks ?? (result.success ? Object.keys(params.callbacks) : [])
+    );
+
     // Enrich errors with code context (runtime errors can occur even when success=true)
     if (result.errors?.length && errorContextLines > 0) {
       await this.enrichErrorsWithCodeContext(params.moduleId, result.errors, errorContextLines);
     }
 
+    // Report the new hash of each updated callback (for the next expectedHash)
+    if (result.updatedCallbacks) {
+      result.hashes = {};
+      for (const callbackName of result.updatedCallbacks) {
+        const script = params.callbacks[callbackName];
+        if (script !== undefined) {
+          result.hashes[callbackName] = computeScriptHash(script);
+        }
+      }
+    }
+
     // Update cache for each updated callback
     if (result.success && result.updatedCallbacks) {
       for (const callbackName of result.updatedCallbacks) {
@@ -333,6 +927,7 @@ export class HiseClient {
    * @param errorContextLines - Lines of context around errors (default: 1)
    */
   async recompile(moduleId: string, errorContextLines: number = 1): Promise<HiseCompileResponse> {
+    reportProgress(`Compiling ${moduleId}`);
     const result = await this.fetchWithTimeout<HiseCompileResponse>(
       '/api/recompile',
       'POST',
@@ -358,37 +953,110 @@ export class HiseClient {
    * @param errorContextLines - Lines of context around errors (default: 1)
    */
   async editScript(params: EditScriptParams, errorContextLines: number = 1): Promise<HiseCompileResponse> {
-    const { moduleId, callback, oldString, newString, replaceAll, compile } = params;
-
-    // Fetch current script
-    const scriptResult = await this.getScript(moduleId, callback);
-    if (!scriptResult.success || !scriptResult.callbacks[callback]) {
-      throw new Error(`Failed to get script: ${scriptResult.errors?.[0]?.errorMessage || 'Unknown error'}`);
-    }
-
-    const currentScript = scriptResult.callbacks[callback];
+    const { moduleId, callback, oldString, newString, replaceAll, compile, expectedHash } = params;
 
-    // Apply the edit using pure function
-    const editResult = editStringInScript(currentScript, oldString, newString, replaceAll);
-
-    if (!editResult.success) {
-      throw new Error(editResult.error);
-    }
+    return this.editScriptMulti(
+      {
+        moduleId,
+        edits: [{ callback, oldString, newString, replaceAll }],
+        compile,
+        expectedHashes: expectedHash ? { [callback]: expectedHash } : undefined,
+      },
+      errorContextLines
+    );
+  }
 
-    const newScriptContent = editResult.script!;
+  /**
+   * Apply several string edits as one transaction
+   * 
+   * Edits are applied in order and may span several callbacks. Every involved
+   * callback is fetched once; if any edit fails to match, an error is thrown and
+   * nothing is sent to HISE. Otherwise all edited callbacks are sent in a single
+   * set_script call, so there is at most one compile.
+   * 
+   * @param params - Parameters including moduleId, edits array and compile flag
+   * @param errorContextLines - Lines of context around errors (default: 1)
+   */
+  async editScriptMulti(params: MultiEditScriptParams, errorContextLines: number = 1): Promise<HiseCompileResponse> {
+    const { moduleId, compile } = params;
+    const { currentScripts, newCallbacks, matchStrategies } = await this.prepareScriptEdits(params);
 
     // Send to HISE (bypasses the guard since we're doing an edit, not a full replacement)
     const result = await this.setScriptInternal(
-      { moduleId, callbacks: { [callback]: newScriptContent }, compile: compile ?? true },
-      errorContextLines
+      { moduleId, callbacks: newCallbacks, compile: compile ?? true },
+      errorContextLines,
+      currentScripts
     );
 
     // Update cache
-    this.cacheScript(moduleId, callback, newScriptContent);
+    for (const [callback, script] of Object.entries(newCallbacks)) {
+      this.cacheScript(moduleId, callback, script);
+    }
 
+    result.matchStrategies = matchStrategies;
     return result;
   }
 
+  /**
+   * Preview a multi-edit transaction as a unified diff without sending anything to HISE
+   * 
+   * @param params - Parameters including moduleId and edits array
+   */
+  async previewEditScriptMulti(params: MultiEditScriptParams): Promise<ScriptPreviewResult> {
+    const { currentScripts, newCallbacks, matchStrategies } = await this.prepareScriptEdits(params);
+    return {
+      ...this.buildScriptPreview(params.moduleId, currentScripts, newCallbacks),
+      matchStrategies,
+    };
+  }
+
+  /**
+   * Fetch the involved callbacks and apply all edits in memory
+   * 
+   * @throws If a callback can't be read, the expectedHash check fails or an edit doesn't match
+   */
+  private async prepareScriptEdits(
+    params: MultiEditScriptParams
+  ): Promise<{
+    currentScripts: Record<string, string>;
+    newCallbacks: Record<string, string>;
+    matchStrategies: MatchStrategy[];
+  }> {
+    const { moduleId, edits, expectedHashes } = params;
+
+    if (!edits.length) {
+      throw new Error('No edits provided');
+    }
+
+    const expectedVersions = this.findExpectedVersions(moduleId, expectedHashes);
+
+    // Fetch each involved callback once
+    const currentScripts: Record<string, string> = {};
+    for (const callback of new Set(edits.map(e => e.callback))) {
+      const scriptResult = await this.getScript(moduleId, callback);
+      if (!scriptResult.success || !scriptResult.callbacks[callback]) {
+        throw new Error(`Failed to get script: ${scriptResult.errors?.[0]?.errorMessage || 'Unknown error'}`);
+      }
+      currentScripts[callback] = scriptResult.callbacks[callback];
+    }
+
+    this.assertExpectedHashes(moduleId, expectedHashes, Object.keys(currentScripts), currentScripts, expectedVersions);
+
+    // Apply all edits using pure function (all-or-nothing)
+    reportProgress(`Applying ${edits.length} edit(s) to ${moduleId}`);
+    const editResult = applyScriptEdits(currentScripts, edits);
+
+    if (!editResult.success) {
+      throw new Error(`${editResult.error}. No changes were sent to HISE.`);
+    }
+
+    return {
+      currentScripts,
+      newCallbacks: editResult.callbacks!,
+      matchStrategies: editResult.matchStrategies!,
+    };
+  }
+
   /**
    * Enrich errors with code context from the script
    * 
@@ -401,6 +1069,7 @@ export class HiseClient {
     errors: HiseError[],
     contextLines: number
   ): Promise<void> {
+    reportProgress(`Enriching ${errors.length} error(s) with code context`);
     for (const error of errors) {
       if (!error.callstack?.length) continue;
 
@@ -460,6 +1129,7 @@ export class HiseClient {
     const queryString = urlParams.toString();
     const url = queryString ? `/api/screenshot?${queryString}` : '/api/screenshot';
 
+    reportProgress('Capturing screenshot');
     return this.fetchWithTimeout<HiseScreenshotResponse>(
       url,
       'GET',
@@ -469,38 +1139,802 @@ export class HiseClient {
   }
 
   // ==========================================================================
-  // Component Methods
+  // External Files (include())
   // ==========================================================================
 
   /**
-   * List all UI components in a script processor
-   * 
-   * @param moduleId - The script processor's module ID
-   * @param hierarchy - If true, returns nested tree with layout properties
+   * Resolve an include()d file inside the project's scripts folder
+   *
+   * @param file - Path relative to the scripts folder (absolute paths inside it are accepted)
+   * @throws If the file is outside the scripts folder or doesn't exist
    */
-  async listComponents(moduleId: string, hierarchy?: boolean): Promise<HiseListComponentsResponse> {
-    const params = new URLSearchParams({ moduleId });
-    if (hierarchy) {
-      params.append('hierarchy', 'true');
+  private async resolveExternalFile(file: string): Promise<{ file: string; path: string; owners: string[] }> {
+    const status = await this.getStatus();
+    const scriptsFolder = status.project?.scriptsFolder;
+    if (!scriptsFolder) {
+      throw new Error('HISE did not report a scripts folder for the current project');
     }
 
-    return this.fetchWithTimeout<HiseListComponentsResponse>(
-      `/api/list_components?${params.toString()}`,
-      'GET',
-      undefined,
-      this.config.timeouts.status
-    );
+    const resolved = resolvePathInFolder(scriptsFolder, file);
+    if (!resolved) {
+      throw new Error(`'${file}' is outside the project's scripts folder (${scriptsFolder})`);
+    }
+
+    // Check the real path too, so a symlink inside the folder can't point outside of it
+    let realPath: string;
+    try {
+      realPath = await realpath(resolved);
+    } catch {
+      throw new Error(`External file not found: ${file} (looked in ${scriptsFolder})`);
+    }
+    if (!resolvePathInFolder(await realpath(scriptsFolder), realPath)) {
+      throw new Error(`'${file}' resolves to a location outside the project's scripts folder`);
+    }
+
+    const owners = (status.scriptProcessors || [])
+      .filter(p => p.externalFiles?.some(f => resolvePathInFolder(scriptsFolder, f) === resolved))
+      .map(p => p.moduleId);
+
+    return { file: relative(scriptsFolder, resolved), path: resolved, owners };
   }
 
   /**
-   * Get properties for a specific UI component
-   * 
-   * @param moduleId - The script processor's module ID
-   * @param id - The component's ID (e.g., "Button1")
-   * @param options - Optional: filtering options (compact mode, specific properties)
+   * Resolve an include()d file to read along with its processor
+   * Like resolveExternalFile, the real path must be inside the scripts folder too.
+   *
+   * @returns The absolute path, or null if the file is outside the scripts folder or missing
    */
-  async getComponentProperties(
-    moduleId: string, 
+  private async resolveIncludeFile(scriptsFolder: string, file: string): Promise<string | null> {
+    const resolved = resolvePathInFolder(scriptsFolder, file);
+    if (!resolved) return null;
+    try {
+      return resolvePathInFolder(await realpath(scriptsFolder), await realpath(resolved)) ? resolved : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read an include()d script file
+   *
+   * @param file - Path relative to the scripts folder (e.g., "ExternalStuff.js")
+   */
+  async getExternalFile(file: string): Promise<ExternalFileContent> {
+    const target = await this.resolveExternalFile(file);
+    const content = await readFile(target.path, 'utf8');
+
+    return {
+      ...target,
+      content,
+      hash: computeScriptHash(content),
+      lineCount: content.split('\n').length,
+    };
+  }
+
+  /**
+   * Edit an include()d script file by replacing oldString with newString
+   *
+   * Uses the same matching as edit_script. The file is written to disk, then
+   * every script processor that includes it is recompiled.
+   *
+   * @param params - Parameters including file, oldString, newString, replaceAll
+   * @param errorContextLines - Lines of context around errors (default: 1)
+   */
+  async editExternalFile(params: EditExternalFileParams, errorContextLines: number = 1): Promise<EditExternalFileResult> {
+    const { file, oldString, newString, replaceAll, compile, expectedHash } = params;
+    const target = await this.resolveExternalFile(file);
+    const content = await readFile(target.path, 'utf8');
+
+    const liveHash = computeScriptHash(content);
+    if (expectedHash && liveHash !== expectedHash) {
+      throw new Error(
+        `${target.file} was modified since it was read (expected hash ${expectedHash}, live hash ${liveHash}). ` +
+        `The file was not changed. Re-read it with get_external_file and apply your change to the current version.`
+      );
+    }
+
+    const editResult = editStringInScript(content, oldString, newString, replaceAll);
+    if (!editResult.success) {
+      throw new Error(`${editResult.error}. The file was not changed.`);
+    }
+
+    await writeFile(target.path, editResult.script!, 'utf8');
+
+    const recompiled: HiseCompileResponse[] = [];
+    if (compile ?? true) {
+      for (const [index, moduleId] of target.owners.entries()) {
+        reportProgress(`Recompiling owner ${index + 1}/${target.owners.length}: ${moduleId}`, { current: index + 1, total: target.owners.length });
+        const result = await this.recompile(moduleId, errorContextLines);
+        recompiled.push({ ...result, moduleId: result.moduleId || moduleId });
+      }
+    }
+
+    return {
+      success: recompiled.every(r => r.success),
+      ...target,
+      hash: computeScriptHash(editResult.script!),
+      matchStrategy: editResult.matchStrategy!,
+      recompiled,
+    };
+  }
+
+  // ==========================================================================
+  // Project Export / Import
+  // ==========================================================================
+
+  /**
+   * Resolve an export directory (relative paths are relative to the HISE project folder)
+   */
+  private resolveExportDirectory(directory: string, status: HiseStatusResponse): string {
+    if (isAbsolute(directory)) {
+      return resolve(directory);
+    }
+    const projectFolder = status.project?.projectFolder;
+    if (!projectFolder) {
+      throw new Error('HISE did not report a project folder - pass an absolute directory');
+    }
+    return resolve(projectFolder, directory);
+  }
+
+  /**
+   * Script processors from a status response, optionally limited to some module IDs
+   *
+   * @throws If a requested module ID is not a script processor
+   */
+  private selectProcessors(status: HiseStatusResponse, moduleIds?: string[]): HiseStatusResponse['scriptProcessors'] {
+    const processors = (status.scriptProcessors || []).filter(p => !moduleIds || moduleIds.includes(p.moduleId));
+    const unknown = (moduleIds || []).filter(id => !processors.some(p => p.moduleId === id));
+    if (unknown.length) {
+      throw new Error(`Unknown script processor(s): ${unknown.join(', ')}`);
+    }
+    return processors;
+  }
+
+  /**
+   * Write every callback of every script processor, plus their include()d files, to a folder
+   *
+   * Layout: <moduleId>/<callback>.js, includes/<path in scripts folder> and
+   * hise-scripts.json with the content hashes at export time.
+   *
+   * @param directory - Target folder (relative paths are relative to the project folder)
+   * @param moduleIds - Only export these processors (default: all)
+   */
+  async exportScripts(directory: string, moduleIds?: string[]): Promise<ExportScriptsResult> {
+    const status = await this.getStatus();
+    const root = this.resolveExportDirectory(directory, status);
+    const scriptsFolder = status.project?.scriptsFolder;
+
+    // Only overwrite files in a previous export
+    const existing = await readdir(root).catch(() => [] as string[]);
+    if (existing.length && !existing.includes(EXPORT_MANIFEST)) {
+      throw new Error(`${root} is not empty and has no ${EXPORT_MANIFEST} - export into an empty folder or a previous export`);
+    }
+
+    const processors = this.selectProcessors(status, moduleIds);
+
+    const manifest: ScriptExportManifest = {
+      version: 1,
+      project: status.project?.name || null,
+      exportedAt: new Date().toISOString(),
+      processors: {},
+      includes: {},
+    };
+    const result: ExportScriptsResult = { directory: root, processors: [], includes: [], fileCount: 0 };
+    const folders = new Set<string>([EXPORT_INCLUDES_FOLDER]);
+
+    for (const [index, processor] of processors.entries()) {
+      reportProgress(`Exporting ${processor.moduleId} (${index + 1}/${processors.length})`, { current: index + 1, total: processors.length });
+      const script = await this.getScript(processor.moduleId);
+      if (!script.success) {
+        throw new Error(`Failed to get script of ${processor.moduleId}: ${script.errors?.[0]?.errorMessage || 'Unknown error'}`);
+      }
+
+      const folder = toExportFolderName(processor.moduleId, folders);
+      await mkdir(join(root, folder), { recursive: true });
+      const hashes: Record<string, string> = {};
+      for (const [callback, content] of Object.entries(script.callbacks)) {
+        await writeFile(join(root, folder, `${callback}.js`), content, 'utf8');
+        hashes[callback] = computeScriptHash(content);
+      }
+      manifest.processors[processor.moduleId] = { folder, callbacks: hashes };
+      result.processors.push({ moduleId: processor.moduleId, folder, callbacks: Object.keys(hashes) });
+
+      // Include files outside the scripts folder (or linked from outside) are not part of the project
+      for (const externalFile of processor.externalFiles || []) {
+        const resolved = scriptsFolder ? await this.resolveIncludeFile(scriptsFolder, externalFile) : null;
+        const file = resolved ? relative(scriptsFolder!, resolved) : null;
+        if (!resolved || !file || file in manifest.includes) continue;
+
+        const content = await readFile(resolved, 'utf8');
+        const target = join(root, EXPORT_INCLUDES_FOLDER, file);
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, content, 'utf8');
+        manifest.includes[file] = computeScriptHash(content);
+        result.includes.push(file);
+      }
+    }
+
+    await writeFile(join(root, EXPORT_MANIFEST), JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+    result.fileCount = result.processors.reduce((n, p) => n + p.callbacks.length, 0) + result.includes.length;
+    return result;
+  }
+
+  /**
+   * Apply the callbacks and include files changed in an export folder
+   *
+   * Each file is compared with the live state and the hash recorded at export.
+   * Files changed on both sides are conflicts and abort the import unless force
+   * is set (a dry run reports them with success: false). Changed callbacks are
+   * sent with one set_script per processor; processors including a changed file
+   * are recompiled. params.files limits the comparison (used by watch mode).
+   * If a set_script fails after others went through, the result lists the
+   * processors left out in notImported, and the manifest records the rest.
+   *
+   * @throws If there are conflicts or the first write fails (nothing is applied), or the folder is not an export
+   */
+  async importScripts(params: ImportScriptsParams, errorContextLines: number = 1): Promise<ImportScriptsResult> {
+    const { dryRun = false, force = false, compile = true } = params;
+    const onlyFiles = params.files ? new Set(params.files.map(f => f.replace(/\\/g, '/'))) : null;
+    const status = await this.getStatus();
+    const root = this.resolveExportDirectory(params.directory, status);
+
+    let manifestText: string;
+    try {
+      manifestText = await readFile(join(root, EXPORT_MANIFEST), 'utf8');
+    } catch {
+      throw new Error(`No ${EXPORT_MANIFEST} in ${root} - export the scripts there first`);
+    }
+    const manifest = parseExportManifest(manifestText);
+
+    const result: ImportScriptsResult = { success: true, dryRun, directory: root, changes: [], diff: '', recompiled: [] };
+    const diffs: string[] = [];
+    const callbackChanges: Record<string, Record<string, string>> = {};
+    const includeChanges: { file: string; path: string; content: string; before: string; owners: string[] }[] = [];
+
+    const exported = Object.entries(manifest.processors);
+    for (const [index, [moduleId, entry]] of exported.entries()) {
+      const callbackNames = Object.keys(entry.callbacks)
+        .filter(callback => !onlyFiles || onlyFiles.has(`${entry.folder}/${callback}.js`));
+      if (callbackNames.length === 0) continue;
+
+      reportProgress(`Comparing ${moduleId} (${index + 1}/${exported.length})`, { current: index + 1, total: exported.length });
+      const live = await this.getScript(moduleId);
+      if (!live.success) {
+        throw new Error(`${moduleId} from the export was not found in HISE: ${live.errors?.[0]?.errorMessage || 'Unknown error'}`);
+      }
+
+      for (const callback of callbackNames) {
+        const exportedHash = entry.callbacks[callback];
+        const fileName = `${entry.folder}/${callback}.js`;
+        const content = await readFile(join(root, entry.folder, `${callback}.js`), 'utf8').catch(() => null);
+        if (content === null) continue;
+
+        const liveContent = live.callbacks[callback] ?? '';
+        const action = classifyImport(computeScriptHash(content), computeScriptHash(liveContent), exportedHash);
+        if (action === 'unchanged') continue;
+
+        result.changes.push({ target: `${moduleId}.${callback}`, action });
+        if (action === 'apply' || (action === 'conflict' && force)) {
+          (callbackChanges[moduleId] ??= {})[callback] = content;
+          diffs.push(createUnifiedDiff(liveContent, content, `${moduleId}.${callback}`, fileName));
+        }
+      }
+    }
+
+    for (const [file, exportedHash] of Object.entries(manifest.includes)) {
+      const fileName = `${EXPORT_INCLUDES_FOLDER}/${file}`;
+      if (onlyFiles && !onlyFiles.has(fileName)) continue;
+      const content = await readFile(join(root, EXPORT_INCLUDES_FOLDER, file), 'utf8').catch(() => null);
+      if (content === null) continue;
+
+      const target = await this.resolveExternalFile(file);
+      const liveContent = await readFile(target.path, 'utf8');
+      const action = classifyImport(computeScriptHash(content), computeScriptHash(liveContent), exportedHash);
+      if (action === 'unchanged') continue;
+
+      result.changes.push({ target: fileName, action });
+      if (action === 'apply' || (action === 'conflict' && force)) {
+        includeChanges.push({ ...target, content, before: liveContent });
+        diffs.push(createUnifiedDiff(liveContent, content, target.file, fileName));
+      }
+    }
+
+    // A dry run lists conflicts instead of failing
+    const conflicts = result.changes.filter(c => c.action === 'conflict').map(c => c.target);
+    if (conflicts.length && !force && !dryRun) {
+      throw new Error(
+        `Changed both in HISE and in the export since it was written: ${conflicts.join(', ')}. ` +
+        `Nothing was imported. Export again and redo the changes, or pass force=true to overwrite HISE's version.`
+      );
+    }
+
+    result.diff = diffs.join('\n');
+    if (dryRun) {
+      result.success = force || conflicts.length === 0;
+      return result;
+    }
+
+    const written: typeof includeChanges = [];
+    const imported: string[] = [];
+    try {
+      for (const change of includeChanges) {
+        await writeFile(change.path, change.content, 'utf8');
+        written.push(change);
+        manifest.includes[change.file] = computeScriptHash(change.content);
+      }
+
+      const imports = Object.entries(callbackChanges);
+      for (const [index, [moduleId, callbacks]] of imports.entries()) {
+        reportProgress(
+          `Importing ${Object.keys(callbacks).length} callback(s) into ${moduleId} (${index + 1}/${imports.length})`,
+          { current: index + 1, total: imports.length }
+        );
+        const compileResult = await this.setScriptInternal({ moduleId, callbacks, compile }, errorContextLines);
+        imported.push(moduleId);
+        result.recompiled.push({ ...compileResult, moduleId: compileResult.moduleId || moduleId });
+        for (const [callback, content] of Object.entries(callbacks)) {
+          manifest.processors[moduleId].callbacks[callback] = computeScriptHash(content);
+        }
+      }
+    } catch (err) {
+      if (imported.length === 0) {
+        // Nothing reached HISE - the include files would no longer match its callbacks
+        for (const change of written) {
+          await writeFile(change.path, change.before, 'utf8');
+        }
+        throw err;
+      }
+
+      // The processors imported so far were compiled with the new include files, so keep
+      // those and record what HISE has now - importing again sends only the rest
+      result.success = false;
+      result.notImported = Object.keys(callbackChanges).filter(moduleId => !imported.includes(moduleId));
+      result.error = err instanceof Error ? err.message : 'Unknown error';
+      await writeFile(join(root, EXPORT_MANIFEST), JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+      return result;
+    }
+
+    // The next import compares against what HISE has now
+    await writeFile(join(root, EXPORT_MANIFEST), JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+
+    // Processors including a changed file that weren't compiled by set_script above
+    if (compile) {
+      const owners = new Set(includeChanges.flatMap(c => c.owners));
+      for (const moduleId of owners) {
+        if (moduleId in callbackChanges) continue;
+        const compileResult = await this.recompile(moduleId, errorContextLines);
+        result.recompiled.push({ ...compileResult, moduleId: compileResult.moduleId || moduleId });
+      }
+    }
+
+    result.success = result.recompiled.every(r => r.success);
+    return result;
+  }
+
+  // ==========================================================================
+  // Script Navigation (search, outline, references, rename)
+  // ==========================================================================
+
+  /**
+   * Search every callback of every script processor, and the files they include()
+   *
+   * Callbacks are fetched from HISE; include files are read from disk, once
+   * each even if several processors include them. Line numbers are relative to
+   * the callback or file, like compile errors.
+   *
+   * @throws If the query is invalid or a processor's script can't be read
+   */
+  async searchScripts(params: SearchScriptsParams): Promise<SearchScriptsResult> {
+    const { moduleIds, includeExternalFiles = true, contextLines = 2, maxResults = 100 } = params;
+    const regex = buildSearchRegex(params.query, params.regex, params.caseSensitive);
+    const status = await this.getStatus();
+    const scriptsFolder = status.project?.scriptsFolder;
+    const processors = this.selectProcessors(status, moduleIds);
+
+    const result: SearchScriptsResult = { hits: [], totalHits: 0, truncated: false, searched: { callbacks: 0, files: 0 } };
+    const addHits = (content: string, location: Omit<ScriptSearchHit, 'line' | 'column' | 'code'>) => {
+      const lines = content.split('\n');
+      for (const match of findMatches(content, regex)) {
+        result.totalHits++;
+        if (result.hits.length >= maxResults) continue;
+
+        const startLine = Math.max(1, match.line - contextLines);
+        const endLine = Math.min(lines.length, match.line + contextLines);
+        result.hits.push({
+          ...location,
+          ...match,
+          code: formatCodeWithLineNumbers(lines.slice(startLine - 1, endLine).join('\n'), startLine),
+        });
+      }
+    };
+
+    const searchedFiles = new Set<string>();
+    for (const [index, processor] of processors.entries()) {
+      reportProgress(`Searching ${processor.moduleId} (${index + 1}/${processors.length})`, { current: index + 1, total: processors.length });
+      const script = await this.getScript(processor.moduleId);
+      if (!script.success) {
+        throw new Error(`Failed to get script of ${processor.moduleId}: ${script.errors?.[0]?.errorMessage || 'Unknown error'}`);
+      }
+      for (const [callback, content] of Object.entries(script.callbacks)) {
+        result.searched.callbacks++;
+        addHits(content, { moduleId: processor.moduleId, callback });
+      }
+
+      if (!includeExternalFiles || !scriptsFolder) continue;
+      // Same rule as export: only files inside the scripts folder
+      for (const externalFile of processor.externalFiles || []) {
+        const resolved = await this.resolveIncludeFile(scriptsFolder, externalFile);
+        if (!resolved || searchedFiles.has(resolved)) continue;
+        searchedFiles.add(resolved);
+
+        const content = await readFile(resolved, 'utf8').catch(() => null);
+        if (content === null) continue;
+        result.searched.files++;
+        addHits(content, { file: relative(scriptsFolder, resolved) });
+      }
+    }
+
+    result.truncated = result.totalHits > result.hits.length;
+    return result;
+  }
+
+  /**
+   * Read a processor's callbacks and its include()d files inside the scripts folder
+   */
+  private async readProcessorSources(moduleId: string, includeExternalFiles: boolean = true): Promise<ProcessorSources> {
+    const script = await this.getScript(moduleId);
+    if (!script.success) {
+      throw new Error(`Failed to get script of ${moduleId}: ${script.errors?.[0]?.errorMessage || 'Unknown error'}`);
+    }
+
+    const sources: ProcessorSources = { callbacks: script.callbacks, hashes: script.hashes || {}, files: {} };
+    if (!includeExternalFiles) return sources;
+
+    const status = await this.getStatus();
+    const scriptsFolder = status.project?.scriptsFolder;
+    const processor = (status.scriptProcessors || []).find(p => p.moduleId === moduleId);
+    if (!scriptsFolder) return sources;
+
+    for (const externalFile of processor?.externalFiles || []) {
+      const resolved = await this.resolveIncludeFile(scriptsFolder, externalFile);
+      if (!resolved) continue;
+      const content = await readFile(resolved, 'utf8').catch(() => null);
+      if (content === null) continue;
+      sources.files[relative(scriptsFolder, resolved)] = { path: resolved, content };
+    }
+    return sources;
+  }
+
+  /**
+   * List callbacks and files of ProcessorSources with where they come from
+   */
+  private listSourceTexts(moduleId: string, sources: ProcessorSources): SourceText[] {
+    return [
+      ...Object.entries(sources.callbacks).map(([callback, content]) => ({ source: { moduleId, callback }, content })),
+      ...Object.entries(sources.files).map(([file, { content }]) => ({ source: { moduleId, file }, content })),
+    ];
+  }
+
+  /**
+   * Build a SymbolLocation with callstack-style location and numbered code
+   */
+  private toSymbolLocation(text: SourceText, line: number, column: number, contextLines: number): SymbolLocation {
+    const { source, content } = text;
+    const lines = content.split('\n');
+    const startLine = Math.max(1, line - contextLines);
+    const endLine = Math.min(lines.length, line + contextLines);
+
+    return {
+      ...source,
+      line,
+      column,
+      location: source.callback
+        ? formatCallstackEntry(source.callback, source.moduleId, line, column)
+        : `${source.file}:${line}:${column}`,
+      code: formatCodeWithLineNumbers(lines.slice(startLine - 1, endLine).join('\n'), startLine),
+    };
+  }
+
+  /**
+   * Outline a processor's callbacks and include()d files instead of returning their text
+   *
+   * Lists namespaces, functions, const var / reg declarations and component
+   * bindings with their line ranges, so only the relevant region needs fetching.
+   *
+   * @param moduleId - The script processor's module ID
+   * @param includeExternalFiles - Outline include()d files inside the scripts folder too (default: true)
+   */
+  async getOutline(moduleId: string, includeExternalFiles: boolean = true): Promise<ProcessorOutline> {
+    const sources = await this.readProcessorSources(moduleId, includeExternalFiles);
+
+    const result: ProcessorOutline = { moduleId, callbacks: {}, hashes: sources.hashes, externalFiles: {} };
+    for (const [callback, content] of Object.entries(sources.callbacks)) {
+      if (!content.trim()) continue;
+      result.callbacks[callback] = outlineHiseScript(content);
+    }
+    for (const [file, { content }] of Object.entries(sources.files)) {
+      result.externalFiles[file] = outlineHiseScript(content);
+    }
+    return result;
+  }
+
+  /**
+   * Find the outline symbols declaring a name in the given sources
+   *
+   * A plain name matches declarations in any namespace; "Synth.setGain" only the one in Synth.
+   */
+  private findDefinitions(texts: SourceText[], name: string, contextLines: number): FindDefinitionResult['definitions'] {
+    const [, member] = name.includes('.') ? name.split('.') : [null, name];
+
+    return texts.flatMap(text => outlineHiseScript(text.content).symbols
+      .filter(symbol => symbol.name === name || (symbol.namespace && `${symbol.namespace}.${symbol.name}` === name))
+      .map(symbol => {
+        // The declared name is the first occurrence on its line (after the keyword)
+        const declarationLine = text.content.split('\n')[symbol.startLine - 1];
+        const column = (declarationLine.search(new RegExp(`\\b${member}\\b`)) + 1) || 1;
+        return { ...this.toSymbolLocation(text, symbol.startLine, column, contextLines), symbol };
+      })
+    );
+  }
+
+  /**
+   * Find where an identifier is declared in a processor's callbacks and include()d files
+   *
+   * @param name - Identifier or Namespace.member (e.g., "setGain" or "Synth.setGain")
+   * @param contextLines - Lines shown around each definition (default: 2)
+   */
+  async findDefinition(moduleId: string, name: string, contextLines: number = 2): Promise<FindDefinitionResult> {
+    if (!isValidSymbolName(name)) {
+      throw new Error(`Invalid symbol name "${name}" - expected an identifier or Namespace.member`);
+    }
+    const sources = await this.readProcessorSources(moduleId);
+    return { name, definitions: this.findDefinitions(this.listSourceTexts(moduleId, sources), name, contextLines) };
+  }
+
+  /**
+   * Resolve a plain name to the namespace member it declares, if that is unambiguous
+   *
+   * @throws If several namespaces declare the name and there is no top-level declaration
+   */
+  private qualifySymbolName(name: string, definitions: FindDefinitionResult['definitions']): string {
+    if (name.includes('.') || definitions.some(d => !d.symbol.namespace)) return name;
+
+    const namespaces = [...new Set(definitions.map(d => d.symbol.namespace!))];
+    if (namespaces.length > 1) {
+      throw new Error(
+        `${name} is declared in several namespaces (${namespaces.map(ns => `${ns}.${name}`).join(', ')}). ` +
+        `Pass the qualified name.`
+      );
+    }
+    return namespaces.length === 1 ? `${namespaces[0]}.${name}` : name;
+  }
+
+  /**
+   * Find every use of an identifier in a processor's callbacks and include()d files
+   *
+   * Strings, comments and members of other objects are skipped. A plain name
+   * declared in exactly one namespace is searched as that namespace member.
+   *
+   * @param name - Identifier or Namespace.member (e.g., "Knob1" or "Synth.setGain")
+   * @param contextLines - Lines shown around each reference (default: 0)
+   */
+  async findReferences(moduleId: string, name: string, contextLines: number = 0): Promise<FindReferencesResult> {
+    if (!isValidSymbolName(name)) {
+      throw new Error(`Invalid symbol name "${name}" - expected an identifier or Namespace.member`);
+    }
+    const sources = await this.readProcessorSources(moduleId);
+    const texts = this.listSourceTexts(moduleId, sources);
+    const qualifiedName = this.qualifySymbolName(name, this.findDefinitions(texts, name, 0));
+    const definitions = this.findDefinitions(texts, qualifiedName, 0);
+
+    const references = texts.flatMap(text => findIdentifierReferences(text.content, qualifiedName).map(occurrence => ({
+      ...this.toSymbolLocation(text, occurrence.line, occurrence.column, contextLines),
+      isDefinition: definitions.some(d =>
+        d.callback === text.source.callback && d.file === text.source.file &&
+        d.line === occurrence.line && d.column === occurrence.column
+      ),
+    })));
+
+    return {
+      name,
+      qualifiedName,
+      references,
+      searched: { callbacks: Object.keys(sources.callbacks).length, files: Object.keys(sources.files).length },
+    };
+  }
+
+  /**
+   * Rename a declared identifier in all callbacks and include()d files of a processor
+   *
+   * Finds the occurrences like findReferences, so strings, comments, members of
+   * other objects and longer identifiers are left alone. Changed include files
+   * are written first, then all changed callbacks go to HISE in one set_script
+   * that compiles once (a recompile if only include files changed). If that
+   * request fails, the include files are restored.
+   *
+   * @throws If the symbol isn't declared in the processor, newName is taken or
+   *   a changed include file is shared with another processor (nothing is changed)
+   */
+  async renameSymbol(params: RenameSymbolParams, errorContextLines: number = 1): Promise<RenameSymbolResult> {
+    const { moduleId, name, newName, dryRun = false, compile = true } = params;
+    if (!isValidSymbolName(name)) {
+      throw new Error(`Invalid symbol name "${name}" - expected an identifier or Namespace.member`);
+    }
+    if (!isValidSymbolName(newName) || newName.includes('.') || isReservedWord(newName)) {
+      throw new Error(`Invalid new name "${newName}" - expected a plain identifier that is not a keyword`);
+    }
+
+    const sources = await this.readProcessorSources(moduleId);
+    const texts = this.listSourceTexts(moduleId, sources);
+    const qualifiedName = this.qualifySymbolName(name, this.findDefinitions(texts, name, 0));
+    if (this.findDefinitions(texts, qualifiedName, 0).length === 0) {
+      throw new Error(`${qualifiedName} is not declared in the scripts of ${moduleId} - only symbols declared there can be renamed`);
+    }
+
+    const qualifier = qualifiedName.includes('.') ? qualifiedName.split('.')[0] : null;
+    const newQualifiedName = qualifier ? `${qualifier}.${newName}` : newName;
+    if (newQualifiedName === qualifiedName) {
+      throw new Error(`${qualifiedName} already has that name`);
+    }
+    const taken = this.findDefinitions(texts, newQualifiedName, 0).length > 0 ||
+      texts.some(text => findIdentifierReferences(text.content, newQualifiedName).length > 0);
+    if (taken) {
+      throw new Error(`${newQualifiedName} is already used in ${moduleId} - choose another name`);
+    }
+
+    const result: RenameSymbolResult = { success: true, dryRun, moduleId, qualifiedName, newName: newQualifiedName, changes: [], diff: '' };
+    const callbacks: Record<string, string> = {};
+    const files: { file: string; path: string; before: string; after: string }[] = [];
+    const diffs: string[] = [];
+
+    for (const text of texts) {
+      const occurrences = findIdentifierReferences(text.content, qualifiedName);
+      if (occurrences.length === 0) continue;
+
+      // Back to front, so earlier offsets stay valid
+      let renamed = text.content;
+      for (const occurrence of [...occurrences].reverse()) {
+        renamed = renamed.slice(0, occurrence.offset) + newName + renamed.slice(occurrence.offset + occurrence.length);
+      }
+
+      const { callback, file } = text.source;
+      if (callback) {
+        callbacks[callback] = renamed;
+        result.changes.push({ callback, occurrences: occurrences.length });
+        diffs.push(createUnifiedDiff(text.content, renamed, `${moduleId}.${callback}`, `${moduleId}.${callback} (new)`));
+      } else {
+        const target = await this.resolveExternalFile(file!);
+        const others = target.owners.filter(owner => owner !== moduleId);
+        if (others.length) {
+          throw new Error(
+            `${file} is also included by ${others.join(', ')}, which would still use ${qualifiedName}. Nothing was changed.`
+          );
+        }
+        files.push({ file: file!, path: target.path, before: text.content, after: renamed });
+        result.changes.push({ file, occurrences: occurrences.length });
+        diffs.push(createUnifiedDiff(text.content, renamed, file!, `${file} (new)`));
+      }
+    }
+
+    result.diff = diffs.join('\n');
+    if (dryRun) return result;
+
+    // Rejects the write if a callback was edited in HISE since it was read above
+    const expectedHashes = Object.fromEntries(Object.keys(callbacks).map(callback => [callback, sources.hashes[callback]]));
+    const written: typeof files = [];
+    try {
+      for (const change of files) {
+        await writeFile(change.path, change.after, 'utf8');
+        written.push(change);
+      }
+      if (Object.keys(callbacks).length) {
+        result.compileResult = await this.setScriptInternal({ moduleId, callbacks, compile, expectedHashes }, errorContextLines);
+      } else if (compile) {
+        result.compileResult = await this.recompile(moduleId, errorContextLines);
+      }
+    } catch (err) {
+      // All or nothing - don't leave some files renamed
+      for (const change of written) {
+        await writeFile(change.path, change.before, 'utf8');
+      }
+      throw err;
+    }
+
+    result.success = result.compileResult?.success ?? true;
+    return result;
+  }
+
+  // ==========================================================================
+  // Console
+  // ==========================================================================
+
+  /**
+   * Capture logs (and compile errors) from a HISE response into the console buffer
+   */
+  private captureConsole(path: string, body: Record<string, unknown> | undefined, response: unknown): void {
+    const { logs, errors, scriptProcessors } = (response || {}) as Partial<HiseStatusResponse>;
+    if (Array.isArray(scriptProcessors)) {
+      this.knownModules = new Set(scriptProcessors.map(p => p.moduleId));
+    }
+
+    const [endpoint, query] = path.split('?');
+    const moduleId = typeof body?.moduleId === 'string'
+      ? body.moduleId
+      : new URLSearchParams(query || '').get('moduleId');
+
+    for (const line of Array.isArray(logs) ? logs : []) {
+      if (typeof line !== 'string' || !line.trim()) continue;
+      this.consoleLog.add(parseConsoleLine(line, this.knownModules, moduleId));
+    }
+
+    // Only compile results - other endpoints may repeat the current errors
+    if (endpoint !== '/api/set_script' && endpoint !== '/api/recompile') return;
+    for (const error of Array.isArray(errors) ? errors : []) {
+      const location = error.callstack?.length ? parseCallstackEntry(error.callstack[0]) : null;
+      this.consoleLog.add({
+        severity: 'error',
+        module: location?.moduleId ?? moduleId,
+        message: error.errorMessage,
+      });
+    }
+  }
+
+  /**
+   * Get captured console output, filtered
+   * 
+   * Logs are collected from every HISE response. By default HISE is polled
+   * first so pending output is included.
+   * 
+   * @param query - Filter by module, regex, minimum severity, or since the last call
+   * @param refresh - Poll HISE before reading the buffer (default: true)
+   */
+  async getConsole(query: ConsoleQuery = {}, refresh: boolean = true): Promise<ConsoleQueryResult> {
+    let refreshError: string | undefined;
+    if (refresh) {
+      try {
+        await this.getStatus();
+      } catch (err) {
+        refreshError = err instanceof Error ? err.message : 'Unknown error';
+      }
+    }
+
+    const result = this.consoleLog.query(query);
+    return refreshError ? { ...result, refreshError } : result;
+  }
+
+  // ==========================================================================
+  // Component Methods
+  // ==========================================================================
+
+  /**
+   * List all UI components in a script processor
+   * 
+   * @param moduleId - The script processor's module ID
+   * @param hierarchy - If true, returns nested tree with layout properties
+   */
+  async listComponents(moduleId: string, hierarchy?: boolean): Promise<HiseListComponentsResponse> {
+    const params = new URLSearchParams({ moduleId });
+    if (hierarchy) {
+      params.append('hierarchy', 'true');
+    }
+
+    return this.fetchWithTimeout<HiseListComponentsResponse>(
+      `/api/list_components?${params.toString()}`,
+      'GET',
+      undefined,
+      this.config.timeouts.status
+    );
+  }
+
+  /**
+   * Get properties for a specific UI component
+   * 
+   * @param moduleId - The script processor's module ID
+   * @param id - The component's ID (e.g., "Button1")
+   * @param options - Optional: filtering options (compact mode, specific properties)
+   */
+  async getComponentProperties(
+    moduleId: string, 
     id: string,
     options?: GetComponentPropertiesOptions
   ): Promise<HiseGetComponentPropertiesResponse> {
@@ -616,7 +2050,10 @@ export class HiseClient {
   }
 
   /**
-   * Internal helper to make fetch requests with timeout
+   * Internal helper to make requests to HISE
+   * 
+   * In replay mode, responses come from the cassette. In record mode, every
+   * exchange (including failures) is appended to the cassette.
    */
   private async fetchWithTimeout<T>(
     path: string,
@@ -624,8 +2061,128 @@ export class HiseClient {
     body?: Record<string, unknown>,
     timeout: number = this.config.timeouts.status
   ): Promise<T> {
+    const signal = requestContext.getStore()?.signal;
+    let data: T;
+
+    try {
+      if (this.cassettePlayer) {
+        data = this.cassettePlayer.next(method, path, body) as T;
+      } else if (this.cassetteRecorder) {
+        const started = Date.now();
+        const entry = { timestamp: new Date(started).toISOString(), method, path, body };
+        try {
+          data = await this.fetchWithRetry<T>(path, method, body, timeout);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          this.cassetteRecorder.record({ ...entry, error: message, durationMs: Date.now() - started });
+          throw error;
+        }
+        this.cassetteRecorder.record({ ...entry, response: data, durationMs: Date.now() - started });
+      } else {
+        data = await this.fetchWithRetry<T>(path, method, body, timeout);
+      }
+
+      // Don't hand a late result to a cancelled caller (it would end up in the script cache)
+      if (signal?.aborted) {
+        throw new Error(REQUEST_CANCELLED);
+      }
+
+      const problems = validateHiseResponse(path, data);
+      if (problems.length) {
+        // A write was most likely applied anyway, so cached scripts can't be trusted
+        if (method === 'POST' && typeof body?.moduleId === 'string') {
+          this.invalidateScriptCache(body.moduleId);
+        }
+        const more = problems.length > 3 ? ` (+${problems.length - 3} more)` : '';
+        throw new Error(
+          `Unexpected response from HISE ${path.split('?')[0]}: ${problems.slice(0, 3).join('; ')}${more}. ` +
+          `The connected HISE build (${this.serverVersion ?? 'unknown version'}) may use a different REST API than this server expects.`
+        );
+      }
+    } catch (error) {
+      // HISE may or may not have applied a cancelled write, so cached scripts can't be trusted
+      if (signal?.aborted && method === 'POST' && typeof body?.moduleId === 'string') {
+        this.invalidateScriptCache(body.moduleId);
+      }
+      throw error;
+    }
+
+    this.captureConsole(path, body, data);
+    return data;
+  }
+
+  /**
+   * Fetch with retries for GET requests and the circuit breaker
+   *
+   * Only timeouts and connection errors are retried and counted as failures -
+   * an HTTP error means HISE is up and answering.
+   */
+  private async fetchWithRetry<T>(
+    path: string,
+    method: 'GET' | 'POST',
+    body: Record<string, unknown> | undefined,
+    timeout: number
+  ): Promise<T> {
+    if (!this.circuitBreaker.canRequest()) {
+      const { consecutiveFailures, retryInMs } = this.circuitBreaker.getState();
+      const waiting = retryInMs > 0
+        ? `skipping requests for another ${Math.ceil(retryInMs / 1000)}s`
+        : 'skipping requests until the current trial request finishes';
+      throw new Error(
+        `HISE at ${this.config.baseUrl} is not responding (${consecutiveFailures} failed requests) - ` +
+        `${waiting}. HISE may be busy, e.g. rebuilding the project.`
+      );
+    }
+
+    // POST requests change state in HISE, so they are never repeated
+    const attempts = method === 'GET' ? this.config.retry.attempts : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await this.fetchFromHise<T>(path, method, body, timeout);
+        this.circuitBreaker.recordSuccess();
+        return data;
+      } catch (error) {
+        if (!this.isTransientError(error)) {
+          this.circuitBreaker.releaseTrial();
+          throw error;
+        }
+        if (attempt >= attempts) {
+          this.circuitBreaker.recordFailure();
+          throw error;
+        }
+        const delay = computeBackoff(attempt, this.config.retry.baseDelayMs, this.config.retry.maxDelayMs);
+        await sleep(delay, requestContext.getStore()?.signal);
+      }
+    }
+  }
+
+  /**
+   * Timeouts and connection errors (as thrown by fetchFromHise)
+   */
+  private isTransientError(error: unknown): boolean {
+    return error instanceof Error &&
+      (error.message.startsWith('HISE API timeout') || error.message.startsWith('Cannot connect to HISE'));
+  }
+
+  /**
+   * Make a fetch request to HISE with timeout
+   */
+  private async fetchFromHise<T>(
+    path: string,
+    method: 'GET' | 'POST',
+    body?: Record<string, unknown>,
+    timeout: number = this.config.timeouts.status
+  ): Promise<T> {
+    const signal = requestContext.getStore()?.signal;
+    if (signal?.aborted) {
+      throw new Error(REQUEST_CANCELLED);
+    }
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
 
     try {
       const options: RequestInit = {
@@ -644,6 +2201,9 @@ export class HiseClient {
 
       if (!response.ok) {
         const errorText = await response.text();
+        if (response.status === 404) {
+          this.unavailableEndpoints.add(path.split('?')[0]);
+        }
         throw new Error(`HISE API error (${response.status}): ${errorText}`);
       }
 
@@ -651,6 +2211,9 @@ export class HiseClient {
     } catch (error) {
       clearTimeout(timeoutId);
 
+      if (signal?.aborted) {
+        throw new Error(REQUEST_CANCELLED);
+      }
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
           throw new Error(`HISE API timeout after ${timeout}ms`);
@@ -664,28 +2227,59 @@ export class HiseClient {
         throw error;
       }
       throw new Error(`Unknown error connecting to HISE: ${error}`);
+    } finally {
+      signal?.removeEventListener('abort', cancel);
     }
   }
 }
 
-// Singleton instance
-let hiseClientInstance: HiseClient | null = null;
+// Named instances (loaded from HISE_INSTANCES on first use)
+let hiseInstances: HiseInstanceConfig[] | null = null;
+const hiseClients: Map<string, HiseClient> = new Map();
 
 /**
- * Get the shared HISE client instance
- * 
- * Uses HISE_API_URL environment variable or defaults to http://localhost:1900
+ * Get the configured HISE instances (the first one is the default)
+ *
+ * @throws If HISE_INSTANCES is malformed
  */
-export function getHiseClient(): HiseClient {
-  if (!hiseClientInstance) {
-    hiseClientInstance = new HiseClient();
+export function listHiseInstances(): HiseInstanceConfig[] {
+  if (!hiseInstances) {
+    hiseInstances = loadHiseInstances(process.env);
+  }
+  return hiseInstances;
+}
+
+/**
+ * Get the shared HISE client for an instance
+ *
+ * Uses HISE_INSTANCES, or a single instance at HISE_API_URL (default http://localhost:1900).
+ * Cassette recording/replay only applies to the default instance.
+ *
+ * @param instance - Instance name (default: first configured instance)
+ * @throws If the instance is not configured
+ */
+export function getHiseClient(instance?: string): HiseClient {
+  const instances = listHiseInstances();
+  const index = instance === undefined ? 0 : instances.findIndex(i => i.name === instance);
+  if (index === -1) {
+    throw new Error(`Unknown HISE instance "${instance}". Configured instances: ${instances.map(i => i.name).join(', ')}`);
+  }
+
+  const { name, url } = instances[index];
+  let client = hiseClients.get(name);
+  if (!client) {
+    client = new HiseClient(index === 0
+      ? { baseUrl: url }
+      : { baseUrl: url, recordCassette: null, replayCassette: null });
+    hiseClients.set(name, client);
   }
-  return hiseClientInstance;
+  return client;
 }
 
 /**
- * Reset the shared HISE client instance (useful for testing)
+ * Reset the shared HISE clients and instance list (useful for testing)
  */
 export function resetHiseClient(): void {
-  hiseClientInstance = null;
+  hiseClients.clear();
+  hiseInstances = null;
 }
@@ -1,13 +1,14 @@
 #!/usr/bin/env node
 
 import 'dotenv/config';
-import { readFileSync } from 'fs';
-import { dirname, join } from 'path';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
@@ -18,9 +19,15 @@ import {
   isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import { HISEDataLoader } from './data-loader.js';
-import { UIComponentProperty, ScriptingAPIMethod, ModuleParameter, SearchDomain, ServerStatus, HiseError } from './types.js';
-import { getHiseClient } from './hise-client.js';
-import { findPatternMatch } from './error-patterns.js';
+import { UIComponentProperty, ScriptingAPIMethod, ModuleParameter, SearchDomain, ServerStatus, HiseError, HiseInstanceInfo, ScriptEdit, AutoFix, ConsoleQuery, ProgressStep } from './types.js';
+import { getHiseClient, listHiseInstances, reportProgress, runInRequestContext } from './hise-client.js';
+import { ConnectivityMonitor } from './connectivity-monitor.js';
+import { parseEnvInt } from './instance-config.js';
+import { ProgressCounter } from './progress.js';
+import { ScriptWatcher } from './script-watcher.js';
+import { EXPORT_MANIFEST } from './script-export.js';
+import { getMissingEndpoints, getRequiredVersion, supportsTool, supportsVersion } from './capabilities.js';
+import { buildAutoFix, getErrorPatternRegistry } from './error-patterns.js';
 import { WORKFLOWS, formatWorkflowAsMarkdown } from './workflows.js';
 import { STYLE_GUIDES, formatStyleGuideAsMarkdown } from './style-guides.js';
 import { CONTRIBUTION_GUIDES, formatContributionGuideAsMarkdown } from './contribution-guides.js';
@@ -44,9 +51,10 @@ const server = new Server(
   },
   {
     capabilities: {
-      tools: {},
+      tools: { listChanged: true },
       resources: {},
       prompts: {},
+      logging: {},
     },
   }
 );
@@ -82,13 +90,18 @@ async function enrichErrorsWithSuggestions(errors: HiseError[]): Promise<void> {
   for (const error of errors) {
     const suggestions: string[] = [];
 
-    // 1. Check error patterns first
-    const patternSuggestion = findPatternMatch(
+    // 1. Check error patterns first (every matching pattern contributes)
+    const patterns = getErrorPatternRegistry().findMatches(
       error.errorMessage,
       error.codeContext?.code
     );
-    if (patternSuggestion) {
-      suggestions.push(patternSuggestion);
+    suggestions.push(...patterns.map(p => p.suggestion));
+
+    const fixes = patterns
+      .map(p => buildAutoFix(p, error.codeContext))
+      .filter((fix): fix is AutoFix => fix !== null);
+    if (fixes.length > 0) {
+      error.fixes = fixes;
     }
 
     // 2. Try fuzzy API search for unknown functions/identifiers
@@ -106,9 +119,33 @@ async function enrichErrorsWithSuggestions(errors: HiseError[]): Promise<void> {
   }
 }
 
+/**
+ * Normalize the expectedHash tool argument to a callback -> hash map
+ * A plain string is only unambiguous when a single callback is written.
+ */
+function normalizeExpectedHashes(
+  expectedHash: string | Record<string, string> | undefined,
+  callbacks: string[]
+): Record<string, string> | undefined {
+  if (expectedHash === undefined) return undefined;
+  if (typeof expectedHash !== 'string') return expectedHash;
+
+  const unique = [...new Set(callbacks)];
+  if (unique.length !== 1) {
+    throw new Error('expectedHash must be an object {"callback": "hash"} when writing several callbacks');
+  }
+  return { [unique[0]]: expectedHash };
+}
+
 // Track server mode (set in main())
 let isProductionMode = false;
 
+// Local mode only: runtime tools are listed while HISE is reachable (set in main())
+let hiseMonitor: ConnectivityMonitor | null = null;
+
+// Local mode only: pushes files saved in HISE_WATCH_SCRIPTS to HISE (set in main())
+let scriptWatcher: ScriptWatcher | null = null;
+
 // Documentation tools - always available
 const DOC_TOOLS: Tool[] = [
   // PRIMARY TOOL - Use this first for discovery and searching
@@ -180,6 +217,22 @@ const DOC_TOOLS: Tool[] = [
     },
   },
 
+  // VALIDATION TOOLS - Work without a running HISE instance
+  {
+    name: 'hise_lint_script',
+    description: `Check HiseScript offline against the Scripting API. Reports unknown Namespace.method calls, wrong argument counts and deprecated calls with line numbers. No HISE required.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          description: 'HiseScript code to check',
+        },
+      },
+      required: ['code'],
+    },
+  },
+
   // SNIPPET TOOLS
   {
     name: 'list_snippets',
@@ -248,10 +301,15 @@ const DOC_TOOLS: Tool[] = [
   // SERVER INFO TOOL
   {
     name: 'server_status',
-    description: `Get server status, data statistics, and HISE runtime availability.`,
+    description: `Get server status, data statistics, error pattern hit counts, and HISE runtime availability.`,
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        instance: {
+          type: 'string',
+          description: 'HISE instance to report on (from HISE_INSTANCES, default: the first)',
+        },
+      },
     },
   },
 
@@ -312,7 +370,26 @@ const DOC_TOOLS: Tool[] = [
 ];
 
 // HISE Runtime tools - only available in local mode when HISE is connected
-const RUNTIME_TOOLS: Tool[] = [
+/**
+ * Add the optional `instance` argument to runtime tools that talk to a HISE instance
+ */
+function withInstanceArgument(tools: Tool[]): Tool[] {
+  return tools.map(tool => tool.name === 'hise_runtime_list_instances' ? tool : {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        instance: {
+          type: 'string',
+          description: 'HISE instance name from hise_runtime_list_instances (default: first configured instance)',
+        },
+      },
+    },
+  });
+}
+
+const RUNTIME_TOOLS: Tool[] = withInstanceArgument([
   {
     name: 'hise_runtime_status',
     description: `Get HISE runtime status. Returns project info, processors, callbacks.`,
@@ -321,9 +398,17 @@ const RUNTIME_TOOLS: Tool[] = [
       properties: {},
     },
   },
+  {
+    name: 'hise_runtime_list_instances',
+    description: `List configured HISE instances (HISE_INSTANCES) with project and version. Pass a name as instance to any runtime tool to target it.`,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
   {
     name: 'hise_runtime_get_script',
-    description: `Read script from a processor. Returns {callbacks: {...}, externalFiles: [...]}.`,
+    description: `Read script from a processor. Returns {callbacks: {...}, externalFiles: [...], hashes: {...}}. Pass a hash as expectedHash when writing to detect concurrent edits. For large callbacks or include()d files (file), read only a part: startLine/endLine, or a symbol from get_outline (returns numbered lines).`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -333,12 +418,167 @@ const RUNTIME_TOOLS: Tool[] = [
         },
         callback: {
           type: 'string',
-          description: 'Specific callback (optional)',
+          description: 'Specific callback (optional; startLine/endLine need a callback or file)',
+        },
+        file: {
+          type: 'string',
+          description: 'include()d file relative to the Scripts folder, to read a range or symbol from it instead of a callback',
+        },
+        startLine: {
+          type: 'number',
+          description: 'First line to return (1-based)',
+        },
+        endLine: {
+          type: 'number',
+          description: 'Last line to return (default: end of callback)',
+        },
+        symbol: {
+          type: 'string',
+          description: 'Return the lines of this namespace, function or variable (e.g., "setGain" or "Synth.setGain"). Searches all callbacks and include()d files unless callback or file is given',
+        },
+        hash: {
+          type: 'string',
+          description: 'Hash from an earlier read - the part is served from the cache while it matches',
+        },
+      },
+      required: ['moduleId'],
+    },
+  },
+  {
+    name: 'hise_runtime_get_outline',
+    description: `Outline a processor's scripts instead of reading them: namespaces, functions, const var/reg declarations and Content.getComponent bindings with startLine/endLine per callback and include()d file. Use it to find the region of a large onInit to read or edit.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        moduleId: {
+          type: 'string',
+          description: 'Processor ID (e.g., "Interface")',
+        },
+        includeExternalFiles: {
+          type: 'boolean',
+          description: 'Outline include()d files too (default: true)',
         },
       },
       required: ['moduleId'],
     },
   },
+  {
+    name: 'hise_runtime_find_definition',
+    description: `Find where a const var, reg, function, namespace or namespace member is declared, across all callbacks and include()d files of a processor. Returns callstack-style locations ("onInit() at Interface.js:4:11") with code and the symbol's line range.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        moduleId: {
+          type: 'string',
+          description: 'Processor ID (e.g., "Interface")',
+        },
+        name: {
+          type: 'string',
+          description: 'Identifier or Namespace.member (e.g., "Knob1" or "Synth.setGain")',
+        },
+        contextLines: {
+          type: 'number',
+          description: 'Lines shown before/after each definition (default: 2)',
+        },
+      },
+      required: ['moduleId', 'name'],
+    },
+  },
+  {
+    name: 'hise_runtime_find_references',
+    description: `Find every use of an identifier across all callbacks and include()d files of a processor, skipping strings, comments and other objects' members. Check this before renaming or changing a symbol so no usage in another callback is missed.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        moduleId: {
+          type: 'string',
+          description: 'Processor ID (e.g., "Interface")',
+        },
+        name: {
+          type: 'string',
+          description: 'Identifier or Namespace.member (e.g., "Knob1" or "Synth.setGain")',
+        },
+        contextLines: {
+          type: 'number',
+          description: 'Lines shown before/after each reference (default: 0)',
+        },
+      },
+      required: ['moduleId', 'name'],
+    },
+  },
+  {
+    name: 'hise_runtime_rename_symbol',
+    description: `Rename a const var, reg, function, namespace or namespace member declared in a processor's scripts. Only whole identifiers are changed (Knob1 not Knob10), strings and comments are skipped. All callbacks are written in one set_script and compiled once; changed include()d files are written too. Use dryRun to preview the diff. Component IDs in Content.getComponent("...") strings are not renamed.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        moduleId: {
+          type: 'string',
+          description: 'Processor ID (e.g., "Interface")',
+        },
+        name: {
+          type: 'string',
+          description: 'Current name, identifier or Namespace.member (e.g., "Knob1" or "Synth.setGain")',
+        },
+        newName: {
+          type: 'string',
+          description: 'New identifier (without namespace - members stay in their namespace)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the diff without changing anything (default: false)',
+        },
+        compile: {
+          type: 'boolean',
+          description: 'Compile after renaming (default: true)',
+        },
+        errorContextLines: {
+          type: 'number',
+          description: 'Lines of code context around errors (default: 1)',
+        },
+      },
+      required: ['moduleId', 'name', 'newName'],
+    },
+  },
+  {
+    name: 'hise_runtime_search_scripts',
+    description: `Search all callbacks of all script processors and their include()d files. Returns hits with moduleId+callback or file, line, column and numbered surrounding lines. Use this to find where a component or variable is used instead of reading every script.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Text to find (e.g., "knbGain")',
+        },
+        regex: {
+          type: 'boolean',
+          description: 'Treat query as a regular expression (default: false)',
+        },
+        caseSensitive: {
+          type: 'boolean',
+          description: 'Match case (default: false)',
+        },
+        moduleIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only search these processors and their include files (default: all)',
+        },
+        includeExternalFiles: {
+          type: 'boolean',
+          description: 'Search include()d files too (default: true)',
+        },
+        contextLines: {
+          type: 'number',
+          description: 'Lines shown before/after each hit (default: 2)',
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Maximum hits returned (default: 100)',
+        },
+      },
+      required: ['query'],
+    },
+  },
   {
     name: 'hise_runtime_set_script',
     description: `Set and compile script. RESTRICTION: Only for NEW (empty) callbacks OR callbacks with <50 lines. For larger scripts, use edit_script to make changes.`,
@@ -358,6 +598,17 @@ const RUNTIME_TOOLS: Tool[] = [
           type: 'boolean',
           description: 'Compile after setting (default: true)',
         },
+        dryRun: {
+          type: 'boolean',
+          description: 'Only return a unified diff, do not change HISE (default: false)',
+        },
+        expectedHash: {
+          anyOf: [
+            { type: 'string' },
+            { type: 'object', additionalProperties: { type: 'string' } },
+          ],
+          description: 'Hash from get_script (or {"callback": "hash"}). Rejects the write if HISE changed since',
+        },
         errorContextLines: {
           type: 'number',
           description: 'Error context lines (default: 1)',
@@ -368,7 +619,7 @@ const RUNTIME_TOOLS: Tool[] = [
   },
   {
     name: 'hise_runtime_edit_script',
-    description: `Edit script by replacing oldString with newString. Works like the native mcp_edit tool - find exact string match and replace. This is the primary tool for modifying existing scripts. For multiple edits, call repeatedly with compile:false, then compile:true on last edit.`,
+    description: `Edit script by replacing oldString with newString. Works like the native mcp_edit tool - find exact string match and replace (falls back to whitespace-tolerant matching for tabs/spaces and CRLF/LF, reported in matchStrategies). This is the primary tool for modifying existing scripts. For multiple edits, pass edits:[{callback, oldString, newString}, ...] instead - they are applied in order, all-or-nothing, with a single compile.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -392,6 +643,79 @@ const RUNTIME_TOOLS: Tool[] = [
           type: 'boolean',
           description: 'Replace all occurrences (default: false)',
         },
+        edits: {
+          type: 'array',
+          description: 'Multiple edits [{callback, oldString, newString, replaceAll?}] (replaces single-edit args)',
+          items: {
+            type: 'object',
+            properties: {
+              callback: { type: 'string' },
+              oldString: { type: 'string' },
+              newString: { type: 'string' },
+              replaceAll: { type: 'boolean' },
+            },
+            required: ['callback', 'oldString', 'newString'],
+          },
+        },
+        compile: {
+          type: 'boolean',
+          description: 'Compile after (default: true)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Only return a unified diff, do not change HISE (default: false)',
+        },
+        expectedHash: {
+          anyOf: [
+            { type: 'string' },
+            { type: 'object', additionalProperties: { type: 'string' } },
+          ],
+          description: 'Hash from get_script (or {"callback": "hash"}). Rejects the write if HISE changed since',
+        },
+        errorContextLines: {
+          type: 'number',
+          description: 'Error context lines (default: 1)',
+        },
+      },
+      required: ['moduleId'],
+    },
+  },
+  {
+    name: 'hise_runtime_list_script_history',
+    description: `List snapshots taken before each set_script/edit_script write (newest first). Use with restore_script to undo.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        moduleId: {
+          type: 'string',
+          description: 'Processor ID (e.g., "Interface")',
+        },
+        callback: {
+          type: 'string',
+          description: 'Specific callback (optional)',
+        },
+      },
+      required: ['moduleId'],
+    },
+  },
+  {
+    name: 'hise_runtime_restore_script',
+    description: `Restore a callback to a snapshot from list_script_history. Without hash, undoes the most recent write. The restore itself can be undone.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        moduleId: {
+          type: 'string',
+          description: 'Processor ID (e.g., "Interface")',
+        },
+        callback: {
+          type: 'string',
+          description: 'Callback name (e.g., "onInit")',
+        },
+        hash: {
+          type: 'string',
+          description: 'Snapshot hash (default: most recent)',
+        },
         compile: {
           type: 'boolean',
           description: 'Compile after (default: true)',
@@ -401,12 +725,113 @@ const RUNTIME_TOOLS: Tool[] = [
           description: 'Error context lines (default: 1)',
         },
       },
-      required: ['moduleId', 'callback', 'oldString', 'newString'],
+      required: ['moduleId', 'callback'],
+    },
+  },
+  {
+    name: 'hise_runtime_get_external_file',
+    description: `Read a file included via include() (listed in get_script externalFiles). Paths are relative to the project's Scripts folder. Returns content, hash and the processors that include it.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path relative to the Scripts folder (e.g., "ExternalStuff.js")',
+        },
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'hise_runtime_edit_external_file',
+    description: `Edit an include()d file by replacing oldString with newString (same matching as edit_script). Recompiles every processor that includes the file. Restricted to the project's Scripts folder.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path relative to the Scripts folder (e.g., "ExternalStuff.js")',
+        },
+        oldString: {
+          type: 'string',
+          description: 'Exact string to find and replace',
+        },
+        newString: {
+          type: 'string',
+          description: 'Replacement string',
+        },
+        replaceAll: {
+          type: 'boolean',
+          description: 'Replace all occurrences (default: false)',
+        },
+        compile: {
+          type: 'boolean',
+          description: 'Recompile owning processors after (default: true)',
+        },
+        expectedHash: {
+          type: 'string',
+          description: 'Hash from get_external_file - rejects the edit if the file changed since',
+        },
+        errorContextLines: {
+          type: 'number',
+          description: 'Error context lines (default: 1)',
+        },
+      },
+      required: ['file', 'oldString', 'newString'],
+    },
+  },
+  {
+    name: 'hise_runtime_export_scripts',
+    description: `Write every callback of every processor (<moduleId>/<callback>.js) and their include()d files (includes/) to a folder, for review in git or an editor. Re-import changes with import_scripts.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Target folder, absolute or relative to the HISE project folder',
+        },
+        moduleIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only export these processors (default: all)',
+        },
+      },
+      required: ['directory'],
+    },
+  },
+  {
+    name: 'hise_runtime_import_scripts',
+    description: `Apply callbacks and include files changed in an export_scripts folder. Unchanged files are skipped; files changed both in HISE and in the folder are conflicts and abort the import unless force=true. Use dryRun to see the diff first. If a write fails part-way, notImported lists the processors still to import (run again).`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        directory: {
+          type: 'string',
+          description: 'Export folder, absolute or relative to the HISE project folder',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Return the diff and conflicts without changing anything (default: false)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Overwrite HISE\'s version of conflicting files (default: false)',
+        },
+        compile: {
+          type: 'boolean',
+          description: 'Compile changed processors (default: true)',
+        },
+        errorContextLines: {
+          type: 'number',
+          description: 'Error context lines (default: 1)',
+        },
+      },
+      required: ['directory'],
     },
   },
   {
     name: 'hise_runtime_recompile',
-    description: `Recompile a processor without changing script. Use after editing external .js files.`,
+    description: `Recompile a processor without changing script. edit_external_file recompiles automatically - use this after external .js files were changed outside HISE.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -422,6 +847,36 @@ const RUNTIME_TOOLS: Tool[] = [
       required: ['moduleId'],
     },
   },
+  {
+    name: 'hise_runtime_get_console',
+    description: `Get console output (Console.print, warnings, compile errors) captured from HISE, with severity and source module. Kept in a ring buffer across calls. Use sinceLastCall to see only new output.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        module: {
+          type: 'string',
+          description: 'Only entries from this processor (e.g., "Interface")',
+        },
+        pattern: {
+          type: 'string',
+          description: 'Regex matched against the message (case-insensitive)',
+        },
+        severity: {
+          type: 'string',
+          enum: ['info', 'warning', 'error'],
+          description: 'Minimum severity (default: info)',
+        },
+        sinceLastCall: {
+          type: 'boolean',
+          description: 'Only entries captured since the previous get_console call (default: false)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Return the newest N matches (default: 100)',
+        },
+      },
+    },
+  },
   {
     name: 'hise_runtime_screenshot',
     description: `Screenshot the interface or a component. Returns base64 or saves to file.`,
@@ -614,12 +1069,21 @@ const RUNTIME_TOOLS: Tool[] = [
       required: ['componentIds'],
     },
   },
-];
+]);
 
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   // In production mode, only expose documentation tools
-  // In local mode, expose all tools (HISE connection verified at startup)
-  const tools = isProductionMode ? DOC_TOOLS : [...DOC_TOOLS, ...RUNTIME_TOOLS];
+  // In local mode, expose runtime tools while the monitor sees any HISE instance. The list is
+  // shared by all instances: a tool is hidden only if none of them is recent enough or serves
+  // its endpoints, calls to an instance without them fail with an explanation.
+  if (!hiseMonitor?.isAvailable()) {
+    return { tools: DOC_TOOLS };
+  }
+  const clients = listHiseInstances().map(i => getHiseClient(i.name));
+  const tools = [
+    ...DOC_TOOLS,
+    ...RUNTIME_TOOLS.filter(tool => clients.some(client => supportsTool(tool.name, client.getServerVersion(), client.getUnavailableEndpoints()))),
+  ];
   return { tools };
 });
 
@@ -832,7 +1296,22 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
 // MCP Tool Handlers
 // ============================================================================
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, (request, extra) => {
+  // Cancelling a tools/call aborts the HISE requests made for it.
+  // Progress is only sent if the client asked for it with a progress token.
+  const progressToken = request.params._meta?.progressToken;
+  const counter = new ProgressCounter();
+  const onProgress = progressToken === undefined ? undefined : (message: string, step?: ProgressStep) => {
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, ...counter.next(step), message },
+    }).catch(() => {});
+  };
+
+  return runInRequestContext({ signal: extra.signal, onProgress }, () => handleToolCall(request));
+});
+
+async function handleToolCall(request: CallToolRequest) {
   const { name, arguments: args } = request.params;
 
   // Guard: reject runtime tools in production mode
@@ -843,6 +1322,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     };
   }
 
+  // Runtime tools and server_status target the default HISE instance unless one is named
+  const instance = (args as { instance?: string } | undefined)?.instance;
+  if (instance !== undefined && (name.startsWith('hise_runtime_') || name === 'server_status')) {
+    const known = listHiseInstances().map(i => i.name);
+    if (!known.includes(instance)) {
+      return {
+        content: [{ type: 'text', text: `HISE Runtime Error: Unknown HISE instance "${instance}". Configured instances: ${known.join(', ')}` }],
+        isError: true,
+      };
+    }
+  }
+
+  // A client with a stale tool list may call in right after HISE came up - refresh early
+  if (hiseMonitor && name.startsWith('hise_runtime_') && !hiseMonitor.isAvailable()) {
+    await hiseMonitor.poll();
+  }
+
+  // Tools newer than the connected HISE build, or calling an endpoint it answered with 404 before
+  if (name.startsWith('hise_runtime_')) {
+    const hiseClient = getHiseClient(instance);
+    const version = hiseClient.getServerVersion();
+    if (!supportsVersion(name, version)) {
+      return {
+        content: [{ type: 'text', text: `HISE Runtime Error: ${name} requires HISE ${getRequiredVersion(name)} or newer (connected: HISE ${version}).` }],
+        isError: true,
+      };
+    }
+    const missing = getMissingEndpoints(name, hiseClient.getUnavailableEndpoints());
+    if (missing.length) {
+      return {
+        content: [{
+          type: 'text',
+          text: `HISE Runtime Error: ${name} needs ${missing.join(', ')}, which the connected HISE build ` +
+            `(${version ?? 'unknown version'}) does not provide.`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
   try {
     switch (name) {
       // PRIMARY SEARCH TOOL
@@ -956,6 +1475,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      // VALIDATION TOOLS
+      case 'hise_lint_script': {
+        const { code } = args as { code: string };
+        const result = await dataLoader.lintScript(code);
+        const response = result.issues.length
+          ? { ...result, _hint: "Tip: Use query_scripting_api for full method details, or get_resource('hisescript-style') for HiseScript syntax reference" }
+          : result;
+        return {
+          content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
+        };
+      }
+
       // SNIPPET TOOLS (with filtering)
       case 'list_snippets': {
         const { category, difficulty, tags } = args as {
@@ -1064,7 +1595,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
        case 'server_status': {
         const baseStatus = dataLoader.getServerStatus(SERVER_NAME, SERVER_VERSION);
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
+        const instanceName = instance ?? listHiseInstances()[0].name;
         
         // Check HISE runtime availability
         let hiseRuntime: ServerStatus['hiseRuntime'];
@@ -1074,24 +1606,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             const hiseStatus = await hiseClient.getStatus();
             hiseRuntime = {
               available: true,
+              instance: instanceName,
               url: hiseClient.getBaseUrl(),
               project: hiseStatus.project?.name || null,
               error: null,
+              circuit: hiseClient.getCircuitState(),
             };
           } else {
             hiseRuntime = {
               available: false,
+              instance: instanceName,
               url: hiseClient.getBaseUrl(),
               project: null,
               error: 'HISE not reachable',
+              circuit: hiseClient.getCircuitState(),
             };
           }
         } catch (err) {
           hiseRuntime = {
             available: false,
+            instance: instanceName,
             url: hiseClient.getBaseUrl(),
             project: null,
             error: err instanceof Error ? err.message : 'Unknown error',
+            circuit: hiseClient.getCircuitState(),
           };
         }
 
@@ -1099,6 +1637,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           ...baseStatus,
           mode: isProductionMode ? 'production' : 'local',
           hiseRuntime,
+          errorPatterns: getErrorPatternRegistry().getStats(),
           hints: {
             resources: 'Use list_resources tool to discover available workflows and guides',
           },
@@ -1140,114 +1679,440 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const workflow = WORKFLOWS.find(w => w.id === id);
         if (workflow) {
           return {
-            content: [{ type: 'text', text: formatWorkflowAsMarkdown(workflow) }],
+            content: [{ type: 'text', text: formatWorkflowAsMarkdown(workflow) }],
+          };
+        }
+
+        // Check style guides
+        const styleGuide = STYLE_GUIDES.find(s => s.id === id);
+        if (styleGuide) {
+          return {
+            content: [{ type: 'text', text: formatStyleGuideAsMarkdown(styleGuide) }],
+          };
+        }
+
+        // Check contribution guides
+        const contribGuide = CONTRIBUTION_GUIDES.find(g => g.id === id);
+        if (contribGuide) {
+          return {
+            content: [{ type: 'text', text: formatContributionGuideAsMarkdown(contribGuide) }],
+          };
+        }
+
+        // Not found
+        const availableIds = [
+          ...WORKFLOWS.map(w => w.id),
+          ...STYLE_GUIDES.map(s => s.id),
+          ...CONTRIBUTION_GUIDES.map(g => g.id),
+        ];
+        return {
+          content: [{
+            type: 'text',
+            text: `Resource not found: "${id}". Available resources: ${availableIds.join(', ')}`
+          }],
+          isError: true,
+        };
+      }
+
+      // ========================================================================
+      // LAF (LookAndFeel) TOOLS
+      // ========================================================================
+
+      case 'list_laf_functions': {
+        const { componentType } = args as { componentType: string };
+        const result = await dataLoader.listLAFFunctions(componentType);
+
+        if (!result) {
+          return {
+            content: [{
+              type: 'text',
+              text: `No LAF functions found for component type "${componentType}". Check if the type name is correct (e.g., "ScriptButton", "PresetBrowser", "PopupMenu").`
+            }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      case 'query_laf_function': {
+        const { functionName } = args as { functionName: string };
+        const result = await dataLoader.queryLAFFunction(functionName);
+
+        if (!result) {
+          return {
+            content: [{
+              type: 'text',
+              text: `LAF function "${functionName}" not found. Use list_laf_functions to see available functions for a component type.`
+            }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      // ========================================================================
+      // HISE RUNTIME BRIDGE TOOLS
+      // These tools are only available in local mode
+      // ========================================================================
+
+      case 'hise_runtime_status': {
+        const hiseClient = getHiseClient(instance);
+        try {
+          const status = await hiseClient.getStatus();
+          return {
+            content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}\n\nEnsure HISE is running with the REST API enabled (default port 1900).`
+            }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'hise_runtime_list_instances': {
+        const defaultName = listHiseInstances()[0].name;
+        const instances: HiseInstanceInfo[] = await Promise.all(listHiseInstances().map(async ({ name, url }) => {
+          const info: HiseInstanceInfo = { name, url, isDefault: name === defaultName, available: false, project: null, version: null, unsupportedTools: [], error: null };
+          try {
+            const client = getHiseClient(name);
+            const status = await client.getStatus();
+            return {
+              ...info,
+              available: true,
+              project: status.project?.name || null,
+              version: status.server?.version || null,
+              unsupportedTools: RUNTIME_TOOLS.map(t => t.name).filter(t => !supportsTool(t, client.getServerVersion(), client.getUnavailableEndpoints())),
+            };
+          } catch (err) {
+            return { ...info, error: err instanceof Error ? err.message : 'Unknown error' };
+          }
+        }));
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ instances }, null, 2) }],
+        };
+      }
+
+      case 'hise_runtime_get_script': {
+        const { moduleId, callback, file, startLine, endLine, symbol, hash } = args as { 
+          moduleId: string; 
+          callback?: string;
+          file?: string;
+          startLine?: number;
+          endLine?: number;
+          symbol?: string;
+          hash?: string;
+        };
+        const hiseClient = getHiseClient(instance);
+        try {
+          const ranged = startLine !== undefined || endLine !== undefined || symbol !== undefined || file !== undefined;
+          const result = ranged
+            ? await hiseClient.getScriptRange({ moduleId, callback, file, startLine, endLine, symbol, hash })
+            : await hiseClient.getScript(moduleId, callback);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
+            }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'hise_runtime_get_outline': {
+        const { moduleId, includeExternalFiles } = args as {
+          moduleId: string;
+          includeExternalFiles?: boolean;
+        };
+        const hiseClient = getHiseClient(instance);
+        try {
+          const result = await hiseClient.getOutline(moduleId, includeExternalFiles ?? true);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
+            }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'hise_runtime_find_definition': {
+        const { moduleId, name: symbolName, contextLines } = args as {
+          moduleId: string;
+          name: string;
+          contextLines?: number;
+        };
+        const hiseClient = getHiseClient(instance);
+        try {
+          const result = await hiseClient.findDefinition(moduleId, symbolName, contextLines ?? 2);
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
+            }],
+            isError: true,
           };
         }
+      }
 
-        // Check style guides
-        const styleGuide = STYLE_GUIDES.find(s => s.id === id);
-        if (styleGuide) {
+      case 'hise_runtime_find_references': {
+        const { moduleId, name: symbolName, contextLines } = args as {
+          moduleId: string;
+          name: string;
+          contextLines?: number;
+        };
+        const hiseClient = getHiseClient(instance);
+        try {
+          const result = await hiseClient.findReferences(moduleId, symbolName, contextLines ?? 0);
           return {
-            content: [{ type: 'text', text: formatStyleGuideAsMarkdown(styleGuide) }],
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
+            }],
+            isError: true,
           };
         }
+      }
 
-        // Check contribution guides
-        const contribGuide = CONTRIBUTION_GUIDES.find(g => g.id === id);
-        if (contribGuide) {
+      case 'hise_runtime_rename_symbol': {
+        const { moduleId, name: symbolName, newName, dryRun, compile, errorContextLines } = args as {
+          moduleId: string;
+          name: string;
+          newName: string;
+          dryRun?: boolean;
+          compile?: boolean;
+          errorContextLines?: number;
+        };
+        const hiseClient = getHiseClient(instance);
+        try {
+          const result = await hiseClient.renameSymbol(
+            { moduleId, name: symbolName, newName, dryRun, compile },
+            errorContextLines ?? 1
+          );
+          // Enrich errors with suggestions (runtime errors can occur even when success=true)
+          const errors = result.compileResult?.errors || [];
+          if (errors.length) {
+            await enrichErrorsWithSuggestions(errors);
+          }
+          const response = errors.length
+            ? { ...result, _hint: "Tip: Use get_resource('hisescript-style') for HiseScript syntax reference" }
+            : result;
           return {
-            content: [{ type: 'text', text: formatContributionGuideAsMarkdown(contribGuide) }],
+            content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
+            }],
+            isError: true,
           };
         }
+      }
 
-        // Not found
-        const availableIds = [
-          ...WORKFLOWS.map(w => w.id),
-          ...STYLE_GUIDES.map(s => s.id),
-          ...CONTRIBUTION_GUIDES.map(g => g.id),
-        ];
-        return {
-          content: [{
-            type: 'text',
-            text: `Resource not found: "${id}". Available resources: ${availableIds.join(', ')}`
-          }],
-          isError: true,
+      case 'hise_runtime_search_scripts': {
+        const { query, regex, caseSensitive, moduleIds, includeExternalFiles, contextLines, maxResults } = args as {
+          query: string;
+          regex?: boolean;
+          caseSensitive?: boolean;
+          moduleIds?: string[];
+          includeExternalFiles?: boolean;
+          contextLines?: number;
+          maxResults?: number;
         };
+        const hiseClient = getHiseClient(instance);
+        try {
+          const result = await hiseClient.searchScripts({
+            query, regex, caseSensitive, moduleIds, includeExternalFiles, contextLines, maxResults,
+          });
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
+            }],
+            isError: true,
+          };
+        }
       }
 
-      // ========================================================================
-      // LAF (LookAndFeel) TOOLS
-      // ========================================================================
-
-      case 'list_laf_functions': {
-        const { componentType } = args as { componentType: string };
-        const result = await dataLoader.listLAFFunctions(componentType);
-
-        if (!result) {
+      case 'hise_runtime_set_script': {
+        const { moduleId, callbacks, compile, dryRun, expectedHash, errorContextLines } = args as {
+          moduleId: string;
+          callbacks: Record<string, string>;
+          compile?: boolean;
+          dryRun?: boolean;
+          expectedHash?: string | Record<string, string>;
+          errorContextLines?: number;
+        };
+        const hiseClient = getHiseClient(instance);
+        try {
+          const expectedHashes = normalizeExpectedHashes(expectedHash, Object.keys(callbacks));
+          if (dryRun) {
+            const preview = await hiseClient.previewSetScript({ moduleId, callbacks, expectedHashes });
+            return {
+              content: [{ type: 'text', text: JSON.stringify(preview, null, 2) }],
+            };
+          }
+          const result = await hiseClient.setScript(
+            { moduleId, callbacks, compile, expectedHashes },
+            errorContextLines ?? 1
+          );
+          // Enrich errors with suggestions (runtime errors can occur even when success=true)
+          if (result.errors?.length) {
+            await enrichErrorsWithSuggestions(result.errors);
+          }
+          // Add hint for style guide when errors occur
+          const response = result.errors?.length
+            ? { ...result, _hint: "Tip: Use get_resource('hisescript-style') for HiseScript syntax reference" }
+            : result;
+          return {
+            content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
+          };
+        } catch (err) {
           return {
             content: [{
               type: 'text',
-              text: `No LAF functions found for component type "${componentType}". Check if the type name is correct (e.g., "ScriptButton", "PresetBrowser", "PopupMenu").`
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
             }],
             isError: true,
           };
         }
+      }
 
+      case 'hise_runtime_list_script_history': {
+        const { moduleId, callback } = args as { moduleId: string; callback?: string };
+        const hiseClient = getHiseClient(instance);
+        const result = hiseClient.listScriptHistory(moduleId, callback);
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
       }
 
-      case 'query_laf_function': {
-        const { functionName } = args as { functionName: string };
-        const result = await dataLoader.queryLAFFunction(functionName);
-
-        if (!result) {
+      case 'hise_runtime_restore_script': {
+        const { moduleId, callback, hash, compile, errorContextLines } = args as {
+          moduleId: string;
+          callback: string;
+          hash?: string;
+          compile?: boolean;
+          errorContextLines?: number;
+        };
+        const hiseClient = getHiseClient(instance);
+        try {
+          const result = await hiseClient.restoreScript(
+            { moduleId, callback, hash, compile },
+            errorContextLines ?? 1
+          );
+          // Enrich errors with suggestions (runtime errors can occur even when success=true)
+          if (result.errors?.length) {
+            await enrichErrorsWithSuggestions(result.errors);
+          }
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (err) {
           return {
             content: [{
               type: 'text',
-              text: `LAF function "${functionName}" not found. Use list_laf_functions to see available functions for a component type.`
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
             }],
             isError: true,
           };
         }
-
-        return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-        };
       }
 
-      // ========================================================================
-      // HISE RUNTIME BRIDGE TOOLS
-      // These tools are only available in local mode
-      // ========================================================================
-
-      case 'hise_runtime_status': {
-        const hiseClient = getHiseClient();
+      case 'hise_runtime_get_external_file': {
+        const { file } = args as { file: string };
+        const hiseClient = getHiseClient(instance);
         try {
-          const status = await hiseClient.getStatus();
+          const result = await hiseClient.getExternalFile(file);
           return {
-            content: [{ type: 'text', text: JSON.stringify(status, null, 2) }],
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
           };
         } catch (err) {
           return {
             content: [{
               type: 'text',
-              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}\n\nEnsure HISE is running with the REST API enabled (default port 1900).`
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
             }],
             isError: true,
           };
         }
       }
 
-      case 'hise_runtime_get_script': {
-        const { moduleId, callback } = args as { 
-          moduleId: string; 
-          callback?: string;
+      case 'hise_runtime_edit_external_file': {
+        const { file, oldString, newString, replaceAll, compile, expectedHash, errorContextLines } = args as {
+          file: string;
+          oldString: string;
+          newString: string;
+          replaceAll?: boolean;
+          compile?: boolean;
+          expectedHash?: string;
+          errorContextLines?: number;
         };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
+        try {
+          const result = await hiseClient.editExternalFile(
+            { file, oldString, newString, replaceAll, compile, expectedHash },
+            errorContextLines ?? 1
+          );
+          // Enrich errors with suggestions (runtime errors can occur even when success=true)
+          const errors = result.recompiled.flatMap(r => r.errors || []);
+          if (errors.length) {
+            await enrichErrorsWithSuggestions(errors);
+          }
+          const response = errors.length
+            ? { ...result, _hint: "Tip: Use get_resource('hisescript-style') for HiseScript syntax reference" }
+            : result;
+          return {
+            content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
+            }],
+            isError: true,
+          };
+        }
+      }
+
+      case 'hise_runtime_export_scripts': {
+        const { directory, moduleIds } = args as { directory: string; moduleIds?: string[] };
+        const hiseClient = getHiseClient(instance);
         try {
-          const result = await hiseClient.getScript(moduleId, callback);
+          const result = await hiseClient.exportScripts(directory, moduleIds);
           return {
             content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
           };
@@ -1262,25 +2127,23 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
-      case 'hise_runtime_set_script': {
-        const { moduleId, callbacks, compile, errorContextLines } = args as {
-          moduleId: string;
-          callbacks: Record<string, string>;
+      case 'hise_runtime_import_scripts': {
+        const { directory, dryRun, force, compile, errorContextLines } = args as {
+          directory: string;
+          dryRun?: boolean;
+          force?: boolean;
           compile?: boolean;
           errorContextLines?: number;
         };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
-          const result = await hiseClient.setScript(
-            { moduleId, callbacks, compile },
-            errorContextLines ?? 1
-          );
+          const result = await hiseClient.importScripts({ directory, dryRun, force, compile }, errorContextLines ?? 1);
           // Enrich errors with suggestions (runtime errors can occur even when success=true)
-          if (result.errors?.length) {
-            await enrichErrorsWithSuggestions(result.errors);
+          const errors = result.recompiled.flatMap(r => r.errors || []);
+          if (errors.length) {
+            await enrichErrorsWithSuggestions(errors);
           }
-          // Add hint for style guide when errors occur
-          const response = result.errors?.length
+          const response = errors.length
             ? { ...result, _hint: "Tip: Use get_resource('hisescript-style') for HiseScript syntax reference" }
             : result;
           return {
@@ -1302,7 +2165,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           moduleId: string;
           errorContextLines?: number;
         };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
           const result = await hiseClient.recompile(moduleId, errorContextLines ?? 1);
           // Enrich errors with suggestions (runtime errors can occur even when success=true)
@@ -1327,6 +2190,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
+      case 'hise_runtime_get_console': {
+        const { module, pattern, severity, sinceLastCall, limit } = args as ConsoleQuery;
+        const hiseClient = getHiseClient(instance);
+        try {
+          const result = await hiseClient.getConsole({ module, pattern, severity, sinceLastCall, limit });
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (err) {
+          return {
+            content: [{
+              type: 'text',
+              text: `HISE Runtime Error: ${err instanceof Error ? err.message : 'Unknown error'}`
+            }],
+            isError: true,
+          };
+        }
+      }
+
       case 'hise_runtime_screenshot': {
         const { moduleId, id, scale, outputPath } = args as {
           moduleId?: string;
@@ -1334,7 +2216,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           scale?: number;
           outputPath?: string;
         };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
           const result = await hiseClient.screenshot({ moduleId, id, scale, outputPath });
           return {
@@ -1352,20 +2234,44 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'hise_runtime_edit_script': {
-        const { moduleId, callback, oldString, newString, replaceAll, compile, errorContextLines } = args as {
+        const { moduleId, callback, oldString, newString, replaceAll, edits, compile, dryRun, expectedHash, errorContextLines } = args as {
           moduleId: string;
-          callback: string;
-          oldString: string;
-          newString: string;
+          callback?: string;
+          oldString?: string;
+          newString?: string;
           replaceAll?: boolean;
+          edits?: ScriptEdit[];
           compile?: boolean;
+          dryRun?: boolean;
+          expectedHash?: string | Record<string, string>;
           errorContextLines?: number;
         };
+
+        // Validate: either edits[] or a single callback/oldString/newString edit
+        if (!edits?.length && (callback === undefined || oldString === undefined || newString === undefined)) {
+          return {
+            content: [{
+              type: 'text',
+              text: 'Error: Pass either edits=[{callback, oldString, newString}, ...] or callback, oldString and newString.'
+            }],
+            isError: true,
+          };
+        }
         
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
-          const result = await hiseClient.editScript(
-            { moduleId, callback, oldString, newString, replaceAll, compile },
+          const allEdits = edits?.length
+            ? edits
+            : [{ callback: callback!, oldString: oldString!, newString: newString!, replaceAll }];
+          const expectedHashes = normalizeExpectedHashes(expectedHash, allEdits.map(e => e.callback));
+          if (dryRun) {
+            const preview = await hiseClient.previewEditScriptMulti({ moduleId, edits: allEdits, expectedHashes });
+            return {
+              content: [{ type: 'text', text: JSON.stringify(preview, null, 2) }],
+            };
+          }
+          const result = await hiseClient.editScriptMulti(
+            { moduleId, edits: allEdits, compile, expectedHashes },
             errorContextLines ?? 1
           );
           // Enrich errors with suggestions
@@ -1391,7 +2297,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'hise_runtime_list_components': {
         const { moduleId, hierarchy } = args as { moduleId: string; hierarchy?: boolean };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
           const result = await hiseClient.listComponents(moduleId, hierarchy);
           return {
@@ -1415,7 +2321,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           compact?: boolean;
           properties?: string[];
         };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
           const options = { compact, properties };
           const result = await hiseClient.getComponentProperties(moduleId, id, options);
@@ -1439,7 +2345,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           changes: { id: string; properties: Record<string, unknown> }[];
           force?: boolean;
         };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
           const result = await hiseClient.setComponentProperties({ moduleId, changes, force });
           return {
@@ -1458,7 +2364,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'hise_runtime_get_component_value': {
         const { moduleId, id } = args as { moduleId: string; id: string };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
           const result = await hiseClient.getComponentValue(moduleId, id);
           return {
@@ -1482,7 +2388,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           value: number;
           validateRange?: boolean;
         };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
           const result = await hiseClient.setComponentValue({ moduleId, id, value, validateRange });
           return {
@@ -1501,7 +2407,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'hise_runtime_get_selected_components': {
         const { moduleId } = args as { moduleId?: string };
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         try {
           const result = await hiseClient.getSelectedComponents(moduleId);
           return {
@@ -1532,13 +2438,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
         
-        const hiseClient = getHiseClient();
+        const hiseClient = getHiseClient(instance);
         
         try {
           // Get component properties to determine types
           const lafTargets: string[] = [];
           
-          for (const componentId of componentIds) {
+          for (const [index, componentId] of componentIds.entries()) {
+            reportProgress(`Reading component ${index + 1}/${componentIds.length}: ${componentId}`, { current: index + 1, total: componentIds.length });
             const propsResult = await hiseClient.getComponentProperties(
               moduleId || 'Interface',
               componentId,
@@ -1592,7 +2499,85 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+// ============================================================================
+// Script Watch Mode
+// ============================================================================
+
+/**
+ * Report a watch-mode event on stderr and as an MCP log notification
+ */
+function logWatchEvent(level: 'info' | 'warning' | 'error', message: string, data?: Record<string, unknown>): void {
+  console.error(`[watch] ${message}`);
+  server.sendLoggingMessage({ level, logger: 'hise-watch', data: { message, ...data } }).catch(() => {});
+}
+
+/**
+ * Push files saved in the watched export folder to HISE
+ * Same comparison as hise_runtime_import_scripts, limited to the saved files.
+ */
+async function syncWatchedScripts(directory: string, files: string[]): Promise<void> {
+  try {
+    const result = await getHiseClient().importScripts({ directory, files });
+
+    for (const change of result.changes.filter(c => c.action === 'changedInHise')) {
+      logWatchEvent('warning', `${change.target} was changed in HISE since the export - kept HISE's version`);
+    }
+    if (result.notImported?.length) {
+      logWatchEvent(
+        'error',
+        `Sync stopped part-way: ${result.error}. Not applied to ${result.notImported.join(', ')} - save those files again to retry`,
+        { notImported: result.notImported, recompiled: result.recompiled }
+      );
+      return;
+    }
+    const applied = result.changes.filter(c => c.action === 'apply').map(c => c.target);
+    if (applied.length === 0) return;
+
+    const errors = result.recompiled.flatMap(r => r.errors || []);
+    if (errors.length === 0) {
+      logWatchEvent('info', `Applied ${applied.join(', ')} - compiled OK`, { applied, recompiled: result.recompiled });
+      return;
+    }
+
+    await enrichErrorsWithSuggestions(errors);
+    const lines = errors.flatMap(error => [
+      `  ${error.errorMessage}${error.callstack?.length ? ` (${error.callstack[0]})` : ''}`,
+      ...(error.suggestions || []).map(suggestion => `    ${suggestion}`),
+    ]);
+    logWatchEvent(
+      'error',
+      `Applied ${applied.join(', ')} - ${errors.length} error(s):\n${lines.join('\n')}`,
+      { applied, errors }
+    );
+  } catch (err) {
+    logWatchEvent('error', `Sync of ${files.join(', ')} failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Watch an export folder (HISE_WATCH_SCRIPTS) and push saved files to the default HISE instance
+ */
+function startScriptWatch(directory: string): void {
+  // importScripts rewrites the manifest after applying
+  const watcher = new ScriptWatcher(directory, files => syncWatchedScripts(directory, files), 300, [EXPORT_MANIFEST]);
+  try {
+    mkdirSync(directory, { recursive: true });
+    watcher.start();
+  } catch (err) {
+    // Watching is an extra - the tools still work without it
+    watcher.stop();
+    console.error(`[watch] Can't watch ${directory}, watch mode is off: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    return;
+  }
+  scriptWatcher = watcher;
+
+  if (!existsSync(join(directory, EXPORT_MANIFEST))) {
+    console.error(`[watch] No ${EXPORT_MANIFEST} in ${directory} yet - run hise_runtime_export_scripts with this directory first`);
+  }
+  console.error(`[watch] Watching ${directory} - saved callbacks are compiled in HISE`);
+}
 
 async function main() {
   dataLoader = new HISEDataLoader();
@@ -1770,10 +2755,26 @@ async function main() {
       process.exit(0);
     });
   } else {
-    // Local mode - start server, HISE tools will error if HISE isn't running
+    // Local mode - runtime tools come and go with the HISE connection (any instance counts)
+    const hiseClients = listHiseInstances().map(i => getHiseClient(i.name));
+    hiseMonitor = new ConnectivityMonitor(
+      async () => (await Promise.all(hiseClients.map(c => c.isAvailable()))).some(Boolean),
+      (available) => {
+        console.error(available ? 'HISE connected - runtime tools enabled' : 'HISE disconnected - runtime tools disabled');
+        server.sendToolListChanged().catch(() => {});
+      },
+      // Polling faster than twice a second would only load HISE
+      Math.max(500, parseEnvInt(process.env.HISE_MONITOR_INTERVAL, 5000))
+    );
+    const hiseAvailable = await hiseMonitor.start();
+
+    if (process.env.HISE_WATCH_SCRIPTS) {
+      startScriptWatch(resolve(process.env.HISE_WATCH_SCRIPTS));
+    }
+
     const transport = new StdioServerTransport();
     await server.connect(transport);
-    console.error('HISE MCP server started in local mode (stdio)');
+    console.error(`HISE MCP server started in local mode (stdio), HISE ${hiseAvailable ? 'connected' : 'not reachable'}`);
   }
 }
 
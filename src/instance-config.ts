@@ -0,0 +1,68 @@
+import type { HiseInstanceConfig } from './types.js';
+
+const INSTANCE_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Parse the HISE_INSTANCES setting ("stable=http://localhost:1900,develop=http://localhost:1901")
+ *
+ * The first instance is the default target for runtime tools.
+ *
+ * @throws If an entry is malformed, a name is used twice or a URL is not http(s)
+ */
+export function parseHiseInstances(value: string): HiseInstanceConfig[] {
+  const instances: HiseInstanceConfig[] = [];
+
+  for (const part of value.split(',')) {
+    const entry = part.trim();
+    if (entry === '') continue;
+
+    const separator = entry.indexOf('=');
+    const name = separator === -1 ? '' : entry.slice(0, separator).trim();
+    const url = separator === -1 ? '' : entry.slice(separator + 1).trim();
+    if (!INSTANCE_NAME.test(name) || url === '') {
+      throw new Error(`Invalid HISE_INSTANCES entry "${entry}" - expected name=url`);
+    }
+    if (instances.some(i => i.name === name)) {
+      throw new Error(`Duplicate HISE instance name "${name}" in HISE_INSTANCES`);
+    }
+
+    let protocol: string;
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      protocol = '';
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new Error(`Invalid URL for HISE instance "${name}": ${url}`);
+    }
+
+    instances.push({ name, url: url.replace(/\/+$/, '') });
+  }
+
+  return instances;
+}
+
+/**
+ * Resolve the configured HISE instances from the environment
+ * Without HISE_INSTANCES there is a single "default" instance at HISE_API_URL.
+ */
+export function loadHiseInstances(env: Record<string, string | undefined>): HiseInstanceConfig[] {
+  const instances = env.HISE_INSTANCES ? parseHiseInstances(env.HISE_INSTANCES) : [];
+  if (instances.length > 0) {
+    return instances;
+  }
+  return [{ name: 'default', url: env.HISE_API_URL || 'http://localhost:1900' }];
+}
+
+/**
+ * Read a count or duration setting from the environment
+ * Falls back to the default unless the value is a non-negative integer, so a
+ * typo can't turn into NaN (which would e.g. make retries loop forever).
+ */
+export function parseEnvInt(value: string | undefined, fallback: number): number {
+  if (value === undefined || !/^\s*\d+\s*$/.test(value)) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : fallback;
+}
@@ -0,0 +1,28 @@
+import type { ProgressStep } from './types.js';
+
+/**
+ * Turns the progress stages of one tool call into MCP progress values
+ *
+ * MCP requires the value to grow with every notification. Counted steps
+ * ("3/10") become whole numbers with a total; messages between them move half
+ * way toward the next step. A counted loop that starts over (the next phase of
+ * the call, e.g. importing after comparing) continues after the previous total.
+ */
+export class ProgressCounter {
+  private progress = 0;
+  private offset = 0;
+  private total: number | undefined;
+
+  next(step?: ProgressStep): { progress: number; total?: number } {
+    if (step) {
+      if (this.offset + step.current <= this.progress) {
+        this.offset = Math.max(this.total ?? 0, Math.floor(this.progress));
+      }
+      this.progress = this.offset + step.current;
+      this.total = this.offset + step.total;
+    } else {
+      this.progress += (Math.floor(this.progress) + 1 - this.progress) / 2;
+    }
+    return this.total === undefined ? { progress: this.progress } : { progress: this.progress, total: this.total };
+  }
+}
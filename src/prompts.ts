@@ -64,6 +64,11 @@ export const PROMPTS: HisePrompt[] = [
         description: 'Optional styling request (e.g., "modern flat design", "vintage knob look")',
         required: false,
       },
+      {
+        name: 'instance',
+        description: 'HISE instance from HISE_INSTANCES to read the selection from (default: the first)',
+        required: false,
+      },
     ],
   },
   {
@@ -134,8 +139,15 @@ export async function generateStyleSelectedComponentPrompt(
   args: Record<string, string> | undefined,
   dataLoader: HISEDataLoader
 ): Promise<GetPromptResult> {
-  const hiseClient = getHiseClient();
   const description = args?.description || '';
+  const instance = args?.instance || undefined;
+
+  let hiseClient: ReturnType<typeof getHiseClient>;
+  try {
+    hiseClient = getHiseClient(instance);
+  } catch (err) {
+    return createErrorPrompt('Unknown HISE Instance', err instanceof Error ? err.message : 'Unknown error');
+  }
 
   // 1. Check HISE connection
   let available = false;
@@ -218,11 +230,15 @@ Please select only one type:
   }
 
   // 6. Build the appropriate prompt
-  if (panels.length > 0) {
-    return generatePanelPrompt(panels, description, existingCode, dataLoader);
-  } else {
-    return generateLAFPrompt(lafComponents, description, existingCode, dataLoader);
+  const result = panels.length > 0
+    ? await generatePanelPrompt(panels, description, existingCode, dataLoader)
+    : await generateLAFPrompt(lafComponents, description, existingCode, dataLoader);
+
+  // The runtime tools would otherwise write to the default instance
+  if (instance) {
+    result.messages[0].content.text += `\n\n**HISE instance:** pass \`instance: "${instance}"\` to every \`hise_runtime_*\` call.`;
   }
+  return result;
 }
 
 // ============================================================================
@@ -363,7 +379,7 @@ ${panelGuide}
 **Important:** 
 - Use \`hise_runtime_set_script\` to compile new code - do NOT just present code to the user
 - If there are errors, use \`hise_runtime_edit_script\` to fix them (find the broken code string, replace with fixed version)
-- For multiple edits, use \`compile: false\` on all but the last edit to avoid repeated compilation
+- For multiple edits, pass them as \`edits: [...]\` in a single call - they apply all-or-nothing with one compile
 
 Begin by analyzing the existing code structure and planning your approach.`;
 
@@ -532,7 +548,7 @@ ${lafGuide}
 **Important:**
 - Use \`hise_runtime_set_script\` to compile new code - do NOT just present code to the user
 - If there are errors, use \`hise_runtime_edit_script\` to fix them (find the broken code string, replace with fixed version)
-- For multiple edits, use \`compile: false\` on all but the last edit to avoid repeated compilation
+- For multiple edits, pass them as \`edits: [...]\` in a single call - they apply all-or-nothing with one compile
 
 Begin by analyzing the existing code structure and planning your approach.`;
 
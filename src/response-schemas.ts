@@ -0,0 +1,170 @@
+/**
+ * Runtime shape checks for HISE REST responses
+ *
+ * Mirrors the Hise*Response interfaces in types.ts. Every response must have a
+ * boolean `success`; `logs` and `errors` are checked whenever present. The
+ * endpoint-specific fields are only required when `success` is true, since
+ * failed requests carry just an error description.
+ */
+
+export type Schema =
+  | { kind: 'string' | 'number' | 'boolean' | 'any' }
+  | { kind: 'array'; items: Schema }
+  | { kind: 'record'; values: Schema }
+  | { kind: 'object'; fields: Record<string, Schema> }
+  | { kind: 'oneOf'; options: Schema[] }
+  | { kind: 'optional'; schema: Schema };
+
+const str: Schema = { kind: 'string' };
+const num: Schema = { kind: 'number' };
+const bool: Schema = { kind: 'boolean' };
+const any: Schema = { kind: 'any' };
+const arr = (items: Schema): Schema => ({ kind: 'array', items });
+const record = (values: Schema): Schema => ({ kind: 'record', values });
+const obj = (fields: Record<string, Schema>): Schema => ({ kind: 'object', fields });
+const oneOf = (...options: Schema[]): Schema => ({ kind: 'oneOf', options });
+const opt = (schema: Schema): Schema => ({ kind: 'optional', schema });
+
+const HISE_ERROR = obj({ errorMessage: str, callstack: opt(arr(str)) });
+
+const COMPONENT_PROPERTY = obj({
+  id: str,
+  value: oneOf(str, num, bool),
+  isDefault: bool,
+  options: opt(arr(str)),
+});
+
+const COMPILE_FIELDS = {
+  moduleId: opt(str),
+  updatedCallbacks: opt(arr(str)),
+  result: opt(str),
+};
+
+/**
+ * Fields required on successful responses, by endpoint path
+ */
+export const RESPONSE_SCHEMAS: Record<string, Record<string, Schema>> = {
+  '/api/status': {
+    server: obj({ version: str, compileTimeout: opt(str) }),
+    project: obj({ name: str, projectFolder: str, scriptsFolder: str }),
+    scriptProcessors: arr(obj({
+      moduleId: str,
+      isMainInterface: bool,
+      externalFiles: opt(arr(str)),
+      callbacks: arr(obj({ id: str, empty: bool })),
+    })),
+  },
+  '/api/get_script': {
+    moduleId: str,
+    callbacks: record(str),
+    externalFiles: opt(arr(obj({ name: str, path: str }))),
+  },
+  '/api/set_script': COMPILE_FIELDS,
+  '/api/recompile': COMPILE_FIELDS,
+  '/api/screenshot': {
+    moduleId: str,
+    width: num,
+    height: num,
+    scale: num,
+    imageData: opt(str),
+    filePath: opt(str),
+  },
+  '/api/list_components': {
+    moduleId: str,
+    components: arr(obj({ id: str, type: str, childComponents: opt(arr(any)) })),
+  },
+  '/api/get_component_properties': {
+    moduleId: str,
+    id: str,
+    type: str,
+    properties: opt(arr(COMPONENT_PROPERTY)),
+  },
+  '/api/set_component_properties': {
+    moduleId: str,
+    applied: opt(arr(obj({ id: str, properties: arr(str) }))),
+    recompileRequired: opt(bool),
+  },
+  '/api/get_component_value': {
+    moduleId: str,
+    id: str,
+    type: str,
+    value: num,
+    min: num,
+    max: num,
+  },
+  '/api/set_component_value': {
+    moduleId: str,
+    id: str,
+    type: str,
+  },
+  '/api/get_selected_components': {
+    moduleId: str,
+    selectionCount: num,
+    components: arr(obj({ id: str, type: str, properties: opt(arr(COMPONENT_PROPERTY)) })),
+  },
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a value against a schema
+ *
+ * @returns One message per mismatch, e.g. "scriptProcessors[0].moduleId: expected string, got number"
+ */
+export function checkSchema(value: unknown, schema: Schema, path: string): string[] {
+  switch (schema.kind) {
+    case 'any':
+      return [];
+    case 'optional':
+      return value === undefined ? [] : checkSchema(value, schema.schema, path);
+    case 'oneOf':
+      return schema.options.some(option => checkSchema(value, option, path).length === 0)
+        ? []
+        : [`${path}: unexpected ${typeOf(value)}`];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${typeOf(value)}`];
+      return value.flatMap((item, index) => checkSchema(item, schema.items, `${path}[${index}]`));
+    case 'record':
+    case 'object': {
+      if (typeOf(value) !== 'object') return [`${path}: expected object, got ${typeOf(value)}`];
+      const fields = value as Record<string, unknown>;
+      if (schema.kind === 'record') {
+        return Object.entries(fields).flatMap(([key, item]) => checkSchema(item, schema.values, `${path}.${key}`));
+      }
+      return Object.entries(schema.fields).flatMap(([key, field]) => checkSchema(fields[key], field, `${path}.${key}`));
+    }
+    default:
+      return typeOf(value) === schema.kind ? [] : [`${path}: expected ${schema.kind}, got ${typeOf(value)}`];
+  }
+}
+
+/**
+ * Validate a HISE response for an endpoint (query string is ignored)
+ *
+ * @returns One message per mismatch (empty if the response is valid)
+ */
+export function validateHiseResponse(path: string, response: unknown): string[] {
+  const endpoint = path.split('?')[0];
+  if (typeOf(response) !== 'object') {
+    return [`response: expected object, got ${typeOf(response)}`];
+  }
+
+  const data = response as Record<string, unknown>;
+  const problems = [
+    ...checkSchema(data.success, bool, 'success'),
+    ...checkSchema(data.logs, opt(arr(str)), 'logs'),
+    ...checkSchema(data.errors, opt(arr(HISE_ERROR)), 'errors'),
+  ];
+
+  const fields = RESPONSE_SCHEMAS[endpoint];
+  if (fields && data.success === true) {
+    for (const [key, schema] of Object.entries(fields)) {
+      problems.push(...checkSchema(data[key], schema, key));
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,99 @@
+import type { CircuitBreakerState } from './types.js';
+
+/**
+ * Delay before retry number `attempt` (0-based): base * 2^attempt, capped at max
+ */
+export function computeBackoff(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+}
+
+/**
+ * Stops calls to an unresponsive service for a cooldown period
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and
+ * canRequest() returns false until the cooldown has passed. The next call is
+ * then let through as a trial: success closes the circuit, failure reopens it.
+ * Only one trial runs at a time - other callers are turned away until it ends.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private now: () => number;
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(failureThreshold: number, cooldownMs: number, now: () => number = Date.now) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+    this.now = now;
+  }
+
+  canRequest(): boolean {
+    if (this.openedAt === null) return true;
+    if (!this.isCooledDown() || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    // A failed trial call reopens immediately
+    if (this.openedAt !== null || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * End a trial call that neither succeeded nor failed (e.g. it was cancelled)
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Milliseconds until the next call is let through (0 if closed or half-open)
+   */
+  getRetryIn(): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.cooldownMs - (this.now() - this.openedAt));
+  }
+
+  getState(): CircuitBreakerState {
+    let state: CircuitBreakerState['state'] = 'closed';
+    if (this.openedAt !== null) {
+      state = this.isCooledDown() ? 'half-open' : 'open';
+    }
+    return { state, consecutiveFailures: this.failures, retryInMs: this.getRetryIn() };
+  }
+
+  private isCooledDown(): boolean {
+    return this.openedAt !== null && this.now() - this.openedAt >= this.cooldownMs;
+  }
+}
+
+/**
+ * Wait for ms, or less if the signal aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
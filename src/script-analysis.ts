@@ -0,0 +1,598 @@
+/**
+ * Static analysis helpers for HiseScript
+ *
+ * These functions work on plain script text and need no running HISE instance,
+ * so they are usable by the documentation-only (production) server as well.
+ * Like script-utils, everything here is pure and easily testable.
+ */
+
+import type { OutlineSymbol, OutlineSymbolKind, ScriptOutline, ScriptingAPIMethod } from './types.js';
+
+// ============================================================================
+// Source Masking
+// ============================================================================
+
+/**
+ * Blank out comments and string literal contents while preserving offsets
+ *
+ * Every character inside a comment or string is replaced with a space (newlines
+ * are kept), so regex scans over the result never match inside strings or comments
+ * and all offsets / line numbers still line up with the original script.
+ * String delimiters are kept so `"a, b"` still reads as a single argument.
+ */
+export function maskStringsAndComments(script: string): string {
+  const out = script.split('');
+  let i = 0;
+
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to; k++) {
+      if (out[k] !== '\n') out[k] = ' ';
+    }
+  };
+
+  while (i < script.length) {
+    const ch = script[i];
+    const next = script[i + 1];
+
+    // Line comment
+    if (ch === '/' && next === '/') {
+      const end = script.indexOf('\n', i);
+      const stop = end === -1 ? script.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Block comment
+    if (ch === '/' && next === '*') {
+      const end = script.indexOf('*/', i + 2);
+      const stop = end === -1 ? script.length : end + 2;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // String literal (keep the quotes, blank the content)
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < script.length && script[j] !== ch && script[j] !== '\n') {
+        if (script[j] === '\\') j++;
+        j++;
+      }
+      blank(i + 1, Math.min(j, script.length));
+      i = j + 1;
+      continue;
+    }
+
+    i++;
+  }
+
+  return out.join('');
+}
+
+/**
+ * Convert a character offset into a 1-based line/column pair
+ */
+export function offsetToLineColumn(script: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < script.length; i++) {
+    if (script[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Find the index of the bracket closing the one at openIndex
+ *
+ * Expects masked source (see maskStringsAndComments) so brackets inside
+ * strings and comments are ignored.
+ *
+ * @returns The index of the matching bracket, or -1 if unbalanced
+ */
+export function findMatchingBracket(masked: string, openIndex: number): number {
+  const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+  const stack: string[] = [];
+
+  for (let i = openIndex; i < masked.length; i++) {
+    const ch = masked[i];
+    if (pairs[ch]) {
+      stack.push(pairs[ch]);
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      if (stack.pop() !== ch) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Count the top-level, comma-separated arguments between two parentheses
+ *
+ * @param masked - Masked source
+ * @param openIndex - Index of the opening parenthesis
+ * @param closeIndex - Index of the matching closing parenthesis
+ */
+function countArguments(masked: string, openIndex: number, closeIndex: number): number {
+  const inner = masked.slice(openIndex + 1, closeIndex);
+  if (inner.trim() === '') return 0;
+
+  let depth = 0;
+  let count = 1;
+  for (const ch of inner) {
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') depth--;
+    else if (ch === ',' && depth === 0) count++;
+  }
+  return count;
+}
+
+// ============================================================================
+// Linter
+// ============================================================================
+
+/**
+ * A single problem found by the linter
+ */
+export interface LintIssue {
+  severity: 'error' | 'warning';
+  rule: 'unknown-method' | 'wrong-case' | 'argument-count' | 'deprecated';
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** The call as written (e.g., "Console.prnt") */
+  apiCall: string;
+  message: string;
+  /** Optional fix hint (e.g., the correct signature or replacement) */
+  suggestion?: string;
+}
+
+/**
+ * Result of linting a script
+ */
+export interface LintResult {
+  valid: boolean;
+  /** Number of Namespace.method calls that were checked */
+  checkedCalls: number;
+  issues: LintIssue[];
+}
+
+/**
+ * Format a method signature (e.g., "Console.print(var debug)")
+ */
+export function formatApiSignature(method: ScriptingAPIMethod): string {
+  return `${method.namespace}.${method.methodName}(${method.parameters.map(p => p.name).join(', ')})`;
+}
+
+/**
+ * Lint a HiseScript snippet against the Scripting API
+ *
+ * Checks every `Namespace.method(...)` call whose namespace is part of the API for:
+ * - unknown methods
+ * - wrong capitalization (HiseScript is case-sensitive)
+ * - wrong argument counts
+ * - deprecated methods
+ *
+ * Identifiers that the script declares itself (e.g., `const var Path = ...` or
+ * `namespace Engine2`) are never treated as API namespaces.
+ *
+ * @param script - The HiseScript code to check
+ * @param apiIndex - API methods keyed by lowercase "namespace.method"
+ * @returns LintResult with all issues in source order
+ */
+export function lintHiseScript(
+  script: string,
+  apiIndex: ReadonlyMap<string, ScriptingAPIMethod>
+): LintResult {
+  const masked = maskStringsAndComments(script);
+
+  const namespaces = new Set<string>();
+  for (const method of apiIndex.values()) {
+    namespaces.add(method.namespace);
+  }
+
+  // Names declared by the script shadow API namespaces
+  const declared = new Set<string>();
+  const declPattern = /\b(?:const\s+var|const|var|reg|local|global|namespace|inline\s+function|function)\s+([A-Za-z_]\w*)/g;
+  for (const match of masked.matchAll(declPattern)) {
+    declared.add(match[1]);
+  }
+
+  const issues: LintIssue[] = [];
+  let checkedCalls = 0;
+
+  const callPattern = /(^|[^\w.$])([A-Z]\w*)\s*\.\s*([A-Za-z_]\w*)\s*\(/g;
+  for (const match of masked.matchAll(callPattern)) {
+    const [full, prefix, namespace, methodName] = match;
+    if (!namespaces.has(namespace) || declared.has(namespace)) continue;
+
+    checkedCalls++;
+    const callStart = match.index! + prefix.length;
+    const { line, column } = offsetToLineColumn(script, callStart);
+    const apiCall = `${namespace}.${methodName}`;
+    const method = apiIndex.get(apiCall.toLowerCase());
+
+    if (!method) {
+      issues.push({
+        severity: 'error',
+        rule: 'unknown-method',
+        line,
+        column,
+        apiCall,
+        message: `Unknown API call ${apiCall}()`,
+      });
+      continue;
+    }
+
+    const canonical = `${method.namespace}.${method.methodName}`;
+    if (canonical !== apiCall) {
+      issues.push({
+        severity: 'error',
+        rule: 'wrong-case',
+        line,
+        column,
+        apiCall,
+        message: `${apiCall}() has wrong capitalization - HiseScript is case-sensitive`,
+        suggestion: canonical,
+      });
+    }
+
+    const openIndex = match.index! + full.length - 1;
+    const closeIndex = findMatchingBracket(masked, openIndex);
+    if (closeIndex !== -1) {
+      const actual = countArguments(masked, openIndex, closeIndex);
+      const max = method.parameters.length;
+      const min = method.parameters.filter(p => !p.optional).length;
+
+      if (actual < min || actual > max) {
+        const expected = min === max ? `${max}` : `${min}-${max}`;
+        issues.push({
+          severity: 'error',
+          rule: 'argument-count',
+          line,
+          column,
+          apiCall,
+          message: `Argument amount mismatch in ${canonical}(): ${actual} given, expected ${expected}`,
+          suggestion: formatApiSignature(method),
+        });
+      }
+    }
+
+    if (method.deprecated) {
+      issues.push({
+        severity: 'warning',
+        rule: 'deprecated',
+        line,
+        column,
+        apiCall,
+        message: `${canonical}() is deprecated${method.deprecatedSince ? ` since ${method.deprecatedSince}` : ''}`,
+        suggestion: method.replacement ? `Use ${method.replacement} instead` : undefined,
+      });
+    }
+  }
+
+  return {
+    valid: !issues.some(i => i.severity === 'error'),
+    checkedCalls,
+    issues,
+  };
+}
+
+// ============================================================================
+// Outline
+// ============================================================================
+
+/**
+ * Map offsets to 1-based line/column pairs (for many lookups in the same script)
+ */
+function createPositionLookup(script: string): (offset: number) => { line: number; column: number } {
+  const lineStarts = [0];
+  for (let i = 0; i < script.length; i++) {
+    if (script[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return offset => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Find the semicolon ending the statement that starts at `from`
+ *
+ * Expects masked source. A closing bracket of the enclosing block also ends
+ * the statement (missing semicolon).
+ *
+ * @returns Index of the last character of the statement
+ */
+function findStatementEnd(masked: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === '(' || ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      if (--depth < 0) return i - 1;
+    } else if (ch === ';' && depth === 0) {
+      return i;
+    }
+  }
+  return masked.length - 1;
+}
+
+interface NamespaceBlock {
+  name: string;
+  open: number;   // Index of the opening brace
+  close: number;  // Index of the closing brace (end of text if unbalanced)
+}
+
+/**
+ * Find the `namespace Name { ... }` blocks of masked source
+ */
+function findNamespaceBlocks(masked: string): NamespaceBlock[] {
+  const blocks: NamespaceBlock[] = [];
+  for (const match of masked.matchAll(/\bnamespace\s+([A-Za-z_]\w*)\s*\{/g)) {
+    const open = match.index + match[0].length - 1;
+    const close = findMatchingBracket(masked, open);
+    blocks.push({ name: match[1], open, close: close === -1 ? masked.length - 1 : close });
+  }
+  return blocks;
+}
+
+interface FunctionBlock {
+  name: string | undefined;  // Undefined for anonymous functions
+  inline: boolean;
+  offset: number;       // Index of `function` (or `inline`)
+  paramsOpen: number;   // Index of the opening parenthesis
+  params: string[];
+  open: number;         // Index of the opening brace of the body
+  close: number;        // Index of the closing brace (end of text if unbalanced)
+}
+
+/**
+ * Find the function definitions (named and anonymous) of masked source
+ */
+function findFunctionBlocks(masked: string): FunctionBlock[] {
+  const blocks: FunctionBlock[] = [];
+  for (const match of masked.matchAll(/\b(inline\s+)?function\b\s*([A-Za-z_]\w*)?\s*\(/g)) {
+    const paramsOpen = match.index + match[0].length - 1;
+    const paramsClose = findMatchingBracket(masked, paramsOpen);
+    const open = paramsClose === -1 ? -1 : masked.indexOf('{', paramsClose);
+    if (open === -1) continue;
+
+    const close = findMatchingBracket(masked, open);
+    blocks.push({
+      name: match[2],
+      inline: match[1] !== undefined,
+      offset: match.index,
+      paramsOpen,
+      params: masked.slice(paramsOpen + 1, paramsClose).split(',').map(p => p.trim()).filter(Boolean),
+      open,
+      close: close === -1 ? masked.length - 1 : close,
+    });
+  }
+  return blocks;
+}
+
+/**
+ * List the top-level declarations of a script with the lines they span
+ *
+ * Finds namespaces, functions, `const var` / `reg` declarations and
+ * `Content.getComponent("id")` bindings (reported as kind "component" instead
+ * of "const var"). Declarations inside function bodies are locals and left out.
+ */
+export function outlineHiseScript(script: string): ScriptOutline {
+  const masked = maskStringsAndComments(script);
+  const positionOf = createPositionLookup(script);
+
+  const found: { offset: number; end: number; kind: OutlineSymbolKind; name: string; componentId?: string }[] = [];
+
+  const namespaces = findNamespaceBlocks(masked);
+  for (const block of namespaces) {
+    found.push({ offset: masked.lastIndexOf('namespace', block.open), end: block.close, kind: 'namespace', name: block.name });
+  }
+
+  // Anonymous functions (e.g. paint routines) only matter for skipping their locals
+  const functionBodies = findFunctionBlocks(masked);
+  for (const fn of functionBodies) {
+    if (fn.name) {
+      found.push({ offset: fn.offset, end: fn.close, kind: fn.inline ? 'inline function' : 'function', name: fn.name });
+    }
+  }
+
+  for (const match of masked.matchAll(/\b(const(?:\s+var)?|reg)\s+([A-Za-z_]\w*)/g)) {
+    const initStart = match.index + match[0].length;
+    const end = findStatementEnd(masked, initStart);
+    const binding = masked.slice(initStart, end + 1).match(/^\s*=\s*Content\.getComponent\s*\(\s*(["'])/);
+
+    if (binding) {
+      const idStart = initStart + binding[0].length;
+      const idEnd = masked.indexOf(binding[1], idStart);
+      found.push({ offset: match.index, end, kind: 'component', name: match[2], componentId: script.slice(idStart, idEnd) });
+    } else {
+      found.push({ offset: match.index, end, kind: match[1] === 'reg' ? 'reg' : 'const var', name: match[2] });
+    }
+  }
+
+  const symbols = found
+    .filter(symbol => !functionBodies.some(body => symbol.offset > body.open && symbol.offset < body.close))
+    .sort((a, b) => a.offset - b.offset)
+    .map(symbol => {
+      const outlineSymbol: OutlineSymbol = {
+        kind: symbol.kind,
+        name: symbol.name,
+        startLine: positionOf(symbol.offset).line,
+        endLine: positionOf(symbol.end).line,
+      };
+      // Innermost enclosing namespace
+      const namespace = namespaces.filter(n => symbol.offset > n.open && symbol.offset < n.close).pop();
+      if (namespace) outlineSymbol.namespace = namespace.name;
+      if (symbol.componentId !== undefined) outlineSymbol.componentId = symbol.componentId;
+      return outlineSymbol;
+    });
+
+  return { lineCount: script.split('\n').length, symbols };
+}
+
+// ============================================================================
+// References
+// ============================================================================
+
+/**
+ * Where an identifier occurs in a script
+ */
+export interface IdentifierOccurrence {
+  /** Character offset of the identifier (for a qualified name: of the member) */
+  offset: number;
+  length: number;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * HiseScript keywords that can't be used as names
+ */
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'const', 'continue', 'default', 'do', 'else', 'false', 'for', 'function', 'global',
+  'if', 'in', 'inline', 'local', 'namespace', 'new', 'null', 'reg', 'return', 'switch', 'this',
+  'true', 'typeof', 'undefined', 'var', 'while',
+]);
+
+/**
+ * Check whether a name is a HiseScript keyword
+ */
+export function isReservedWord(name: string): boolean {
+  return RESERVED_WORDS.has(name);
+}
+
+/**
+ * Check a name for findIdentifierReferences ("knob" or "Namespace.member")
+ */
+export function isValidSymbolName(name: string): boolean {
+  return /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)?$/.test(name);
+}
+
+/**
+ * Check whether the identifier at offset is a key of an object literal (`{name: 1}`)
+ *
+ * Expects masked source. Keys follow `{` or `,` directly inside braces that
+ * open a value (after `=`, `(`, `,`, `:`, `[`, `?` or `return`).
+ */
+function isObjectKey(masked: string, offset: number, length: number): boolean {
+  let next = offset + length;
+  while (next < masked.length && /\s/.test(masked[next])) next++;
+  let prev = offset - 1;
+  while (prev >= 0 && /\s/.test(masked[prev])) prev--;
+  if (masked[next] !== ':' || (masked[prev] !== '{' && masked[prev] !== ',')) return false;
+
+  // Innermost bracket still open at the identifier
+  let open = prev;
+  for (let depth = 0; open >= 0; open--) {
+    const ch = masked[open];
+    if (ch === ')' || ch === ']' || ch === '}') {
+      depth++;
+    } else if (ch === '(' || ch === '[' || ch === '{') {
+      if (depth-- === 0) break;
+    }
+  }
+  if (masked[open] !== '{') return false;
+
+  let before = open - 1;
+  while (before >= 0 && /\s/.test(masked[before])) before--;
+  return '=(,:[?'.includes(masked[before]) || /\breturn$/.test(masked.slice(0, before + 1));
+}
+
+/**
+ * Find the functions that declare their own `name` as a parameter or local
+ */
+function findShadowingFunctions(masked: string, name: string): FunctionBlock[] {
+  const functions = findFunctionBlocks(masked);
+  const innermostAt = (offset: number) =>
+    functions.filter(fn => offset > fn.open && offset < fn.close).sort((a, b) => b.open - a.open)[0];
+
+  const shadowing = new Set(functions.filter(fn => fn.params.includes(name)));
+  for (const match of masked.matchAll(new RegExp(`\\b(?:var|local|reg|const(?:\\s+var)?)\\s+${name}\\b`, 'g'))) {
+    const fn = innermostAt(match.index);
+    if (fn) shadowing.add(fn);
+  }
+  return [...shadowing];
+}
+
+/**
+ * Find the occurrences of an identifier, skipping strings, comments and other objects' members
+ *
+ * A plain name matches where it isn't accessed as a member (`x.name`), except
+ * inside namespaces that declare their own `name`. A qualified name
+ * ("Synth.setGain") matches `Synth.setGain` anywhere and a bare `setGain`
+ * inside `namespace Synth`. Whole identifiers only: Knob1 never matches Knob10.
+ * Object literal keys (`{name: 1}`) and functions with a parameter or local
+ * of the same name are skipped as well.
+ *
+ * @throws If name is not an identifier or Namespace.member
+ */
+export function findIdentifierReferences(script: string, name: string): IdentifierOccurrence[] {
+  if (!isValidSymbolName(name)) {
+    throw new Error(`Invalid symbol name "${name}" - expected an identifier or Namespace.member`);
+  }
+
+  const [qualifier, member] = name.includes('.') ? name.split('.') : [null, name];
+  const masked = maskStringsAndComments(script);
+  const positionOf = createPositionLookup(script);
+  const namespaces = findNamespaceBlocks(masked);
+  const inside = (offset: number, block: NamespaceBlock) => offset > block.open && offset < block.close;
+
+  // Namespaces with their own declaration of the name shadow a top-level one
+  const symbols = qualifier ? [] : outlineHiseScript(script).symbols;
+  const shadowing = namespaces.filter(block =>
+    symbols.some(s => s.namespace === block.name && s.name === member && s.kind !== 'namespace')
+  );
+
+  const locals = findShadowingFunctions(masked, member);
+  const isLocal = (offset: number) => locals.some(fn => offset > fn.paramsOpen && offset < fn.close);
+
+  const occurrences: IdentifierOccurrence[] = [];
+  for (const match of masked.matchAll(new RegExp(`\\b${member}\\b`, 'g'))) {
+    const offset = match.index;
+
+    // Skip back over whitespace to see whether this is a member access
+    let i = offset - 1;
+    while (i >= 0 && /\s/.test(masked[i])) i--;
+    const isMember = masked[i] === '.';
+
+    let matches: boolean;
+    if (isMember) {
+      // Only Qualifier.member, where Qualifier is not itself a member
+      let end = i - 1;
+      while (end >= 0 && /\s/.test(masked[end])) end--;
+      let start = end;
+      while (start > 0 && /\w/.test(masked[start - 1])) start--;
+      let before = start - 1;
+      while (before >= 0 && /\s/.test(masked[before])) before--;
+      matches = qualifier !== null && masked.slice(start, end + 1) === qualifier && masked[before] !== '.';
+    } else if (isObjectKey(masked, offset, member.length) || isLocal(offset)) {
+      matches = false;
+    } else if (qualifier) {
+      matches = namespaces.some(block => block.name === qualifier && inside(offset, block));
+    } else {
+      matches = !shadowing.some(block => inside(offset, block));
+    }
+
+    if (matches) {
+      occurrences.push({ offset, length: member.length, ...positionOf(offset) });
+    }
+  }
+  return occurrences;
+}
@@ -0,0 +1,70 @@
+import type { ScriptExportManifest, ScriptImportAction } from './types.js';
+
+/**
+ * Manifest file written into every export folder
+ */
+export const EXPORT_MANIFEST = 'hise-scripts.json';
+
+/**
+ * Folder for include()d files inside an export (paths below it mirror the scripts folder)
+ */
+export const EXPORT_INCLUDES_FOLDER = 'includes';
+
+/**
+ * Turn a module ID into a folder name that is valid on every OS and unique in the export
+ *
+ * @param taken - Folder names already used (the result is added)
+ */
+export function toExportFolderName(moduleId: string, taken: Set<string>): string {
+  let base = moduleId.replace(/[^\w .-]/g, '_').replace(/^[. ]+|[. ]+$/g, '') || 'module';
+  if (base === EXPORT_INCLUDES_FOLDER) {
+    base = `${base}_`;
+  }
+
+  let name = base;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) {
+    name = `${base}_${n}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Parse and check an export manifest
+ *
+ * @throws If the JSON is invalid or doesn't describe an export
+ */
+export function parseExportManifest(text: string): ScriptExportManifest {
+  let data: ScriptExportManifest;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${EXPORT_MANIFEST} is not valid JSON`);
+  }
+
+  if (data?.version !== 1 || typeof data.processors !== 'object' || typeof data.includes !== 'object') {
+    throw new Error(`${EXPORT_MANIFEST} is not a HISE script export (expected version 1 with processors and includes)`);
+  }
+  for (const [moduleId, processor] of Object.entries(data.processors)) {
+    if (typeof processor?.folder !== 'string' || typeof processor.callbacks !== 'object') {
+      throw new Error(`${EXPORT_MANIFEST}: processor "${moduleId}" needs a folder and callbacks`);
+    }
+  }
+  return data;
+}
+
+/**
+ * Decide what importing one file means, given three hashes
+ *
+ * @param fileHash - Hash of the file in the export folder
+ * @param liveHash - Hash of the current content in HISE (or on disk for include files)
+ * @param exportedHash - Hash recorded in the manifest at export time
+ */
+export function classifyImport(fileHash: string, liveHash: string, exportedHash: string | undefined): ScriptImportAction {
+  if (fileHash === liveHash) return 'unchanged';
+  // Only HISE changed since the export - keep HISE's version
+  if (fileHash === exportedHash) return 'changedInHise';
+  // Both sides changed since the export
+  if (exportedHash !== undefined && liveHash !== exportedHash) return 'conflict';
+  return 'apply';
+}
@@ -0,0 +1,68 @@
+import type { ScriptSnapshot } from './types.js';
+
+/**
+ * Bounded in-memory history of script snapshots.
+ * One list per module/callback key, oldest first.
+ */
+export class ScriptHistory {
+  private snapshots: Map<string, ScriptSnapshot[]> = new Map();
+  private limit: number;
+
+  constructor(limit: number = 20) {
+    this.limit = limit;
+  }
+
+  /**
+   * Record a snapshot for a key.
+   * Skipped if it is identical to the most recent snapshot of that key.
+   *
+   * @returns true if the snapshot was added
+   */
+  record(key: string, snapshot: ScriptSnapshot): boolean {
+    if (this.limit <= 0) {
+      return false;
+    }
+
+    const list = this.snapshots.get(key) || [];
+    if (list.length > 0 && list[list.length - 1].hash === snapshot.hash) {
+      return false;
+    }
+
+    list.push(snapshot);
+    if (list.length > this.limit) {
+      list.splice(0, list.length - this.limit);
+    }
+    this.snapshots.set(key, list);
+    return true;
+  }
+
+  /**
+   * Get all snapshots for a key, newest first.
+   */
+  list(key: string): ScriptSnapshot[] {
+    return [...(this.snapshots.get(key) || [])].reverse();
+  }
+
+  /**
+   * Find a snapshot by hash (or unique hash prefix).
+   * Without a hash, returns the most recent snapshot.
+   */
+  find(key: string, hash?: string): ScriptSnapshot | null {
+    const list = this.snapshots.get(key) || [];
+    if (!hash) {
+      return list[list.length - 1] || null;
+    }
+
+    const matches = list.filter(s => s.hash.startsWith(hash));
+    // Several matches for the same hash are the same content, newest wins
+    const unique = new Set(matches.map(s => s.hash));
+    return unique.size === 1 ? matches[matches.length - 1] : null;
+  }
+
+  /**
+   * Get all keys that have at least one snapshot.
+   */
+  keys(): string[] {
+    return [...this.snapshots.keys()];
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Text search over script callbacks and include files
+ */
+
+export interface TextMatch {
+  line: number;     // 1-based
+  column: number;   // 1-based
+}
+
+/**
+ * Build the regex for a search query
+ *
+ * @param query - Literal text, or a regular expression if isRegex is set
+ * @throws If the query is empty, or the regular expression is invalid or matches empty text
+ */
+export function buildSearchRegex(query: string, isRegex: boolean = false, caseSensitive: boolean = false): RegExp {
+  if (!query) {
+    throw new Error('Search query must not be empty');
+  }
+
+  const source = isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, caseSensitive ? 'g' : 'gi');
+  } catch (err) {
+    throw new Error(`Invalid regex "${query}": ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+
+  if (regex.test('')) {
+    throw new Error(`Regex "${query}" matches empty text - it would match every line`);
+  }
+  return regex;
+}
+
+/**
+ * Find the lines of a text that match a regex
+ * Matches don't span lines; each line is reported once, at its first match.
+ */
+export function findMatches(text: string, regex: RegExp): TextMatch[] {
+  const matches: TextMatch[] = [];
+  text.split('\n').forEach((line, index) => {
+    regex.lastIndex = 0;
+    const match = regex.exec(line);
+    if (match) {
+      matches.push({ line: index + 1, column: match.index + 1 });
+    }
+  });
+  return matches;
+}
@@ -3,6 +3,9 @@
  * These functions have no side effects and are easily testable
  */
 
+import { isAbsolute, relative, resolve, sep } from 'path';
+import type { ScriptEdit, MatchStrategy } from './types.js';
+
 /**
  * Result of editing a string in a script
  */
@@ -10,16 +13,25 @@ export interface EditResult {
   success: boolean;
   script?: string;
   error?: string;
+  matchStrategy?: MatchStrategy;
 }
 
+/** Column width of a tab when comparing indentation (HISE editor default) */
+const TAB_WIDTH = 4;
+
 /**
  * Replace a string in a script (works like the native mcp_edit tool)
  * 
+ * Tries an exact match first. If that fails, falls back to increasingly tolerant
+ * matching: line-ending-normalized, then indentation-insensitive, then trimmed-line.
+ * For the whole-line strategies the replacement is re-indented to the indentation
+ * of the matched block, so spaces in newString become tabs if the script uses tabs.
+ * 
  * @param script - The original script content
- * @param oldString - The exact string to find and replace
+ * @param oldString - The string to find and replace
  * @param newString - The replacement string
  * @param replaceAll - If true, replace all occurrences; if false, fail on multiple matches
- * @returns EditResult with success status and either new script or error
+ * @returns EditResult with success status, the strategy that matched, and either new script or error
  */
 export function editStringInScript(
   script: string,
@@ -27,14 +39,51 @@ export function editStringInScript(
   newString: string,
   replaceAll: boolean = false
 ): EditResult {
-  // Check if oldString exists in script
-  if (!script.includes(oldString)) {
-    return {
-      success: false,
-      error: 'oldString not found in script'
-    };
+  // 1. Exact match
+  if (script.includes(oldString)) {
+    return replaceExact(script, oldString, newString, replaceAll, 'exact');
+  }
+
+  // 2. Line-ending-normalized match
+  const eol = script.includes('\r\n') ? '\r\n' : '\n';
+  const convertEol = (text: string) => text.replace(/\r\n/g, '\n').replace(/\n/g, eol);
+  const eolOldString = convertEol(oldString);
+  if (eolOldString !== oldString && script.includes(eolOldString)) {
+    return replaceExact(script, eolOldString, convertEol(newString), replaceAll, 'line-endings');
+  }
+
+  // 3. + 4. Whole-line matches with relaxed whitespace
+  const stripIndent = (line: string) => line.replace(/\r$/, '').replace(/^[ \t]+/, '');
+  const trimLine = (line: string) => line.trim();
+
+  const fuzzy: [MatchStrategy, (line: string) => string][] = [
+    ['indentation', stripIndent],
+    ['trimmed-lines', trimLine],
+  ];
+
+  for (const [strategy, normalize] of fuzzy) {
+    const result = replaceLines(script, oldString, newString, replaceAll, strategy, normalize);
+    if (result) {
+      return result;
+    }
   }
 
+  return {
+    success: false,
+    error: 'oldString not found in script (also tried line-ending, indentation and trimmed-line matching)'
+  };
+}
+
+/**
+ * Replace exact occurrences of oldString
+ */
+function replaceExact(
+  script: string,
+  oldString: string,
+  newString: string,
+  replaceAll: boolean,
+  strategy: MatchStrategy
+): EditResult {
   // Count occurrences
   const occurrences = script.split(oldString).length - 1;
 
@@ -53,10 +102,424 @@ export function editStringInScript(
 
   return {
     success: true,
-    script: newScript
+    script: newScript,
+    matchStrategy: strategy
+  };
+}
+
+/**
+ * Replace whole-line blocks that match oldString after normalizing each line
+ * 
+ * @returns EditResult, or null if the block wasn't found with this strategy
+ */
+function replaceLines(
+  script: string,
+  oldString: string,
+  newString: string,
+  replaceAll: boolean,
+  strategy: MatchStrategy,
+  normalize: (line: string) => string
+): EditResult | null {
+  const scriptLines = script.split('\n');
+  const useCrlf = script.includes('\r\n');
+
+  // A trailing newline on oldString means "whole lines including the last line break"
+  const oldText = oldString.replace(/\r\n/g, '\n');
+  let newText = newString.replace(/\r\n/g, '\n');
+  let oldLines = oldText.split('\n');
+  if (oldText.endsWith('\n')) {
+    oldLines = oldLines.slice(0, -1);
+    newText = newText.endsWith('\n') ? newText.slice(0, -1) : newText;
+  }
+  const newLines = oldText.endsWith('\n') && newString === '' ? [] : newText.split('\n');
+
+  const pattern = oldLines.map(normalize);
+  if (pattern.every(line => line === '')) {
+    return null;
+  }
+
+  // Find non-overlapping matching windows
+  const matches: number[] = [];
+  for (let i = 0; i + pattern.length <= scriptLines.length; i++) {
+    let matched = true;
+    for (let k = 0; k < pattern.length; k++) {
+      if (normalize(scriptLines[i + k]) !== pattern[k]) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) {
+      matches.push(i);
+      i += pattern.length - 1;
+    }
+  }
+
+  if (matches.length === 0) {
+    return null;
+  }
+
+  if (matches.length > 1 && !replaceAll) {
+    return {
+      success: false,
+      error: `oldString found ${matches.length} times (${strategy} match) - use replaceAll to replace all occurrences, or provide more context to make it unique`
+    };
+  }
+
+  // Replace from the back so earlier indexes stay valid
+  const useTabs = scriptLines.some(line => line.startsWith('\t'));
+  const givenBase = indentWidth(firstIndent(oldLines));
+  for (const start of [...matches].reverse()) {
+    const block = scriptLines.slice(start, start + oldLines.length);
+    // The last line only gets a \r if the line it replaces had one (not at the end of the script)
+    const lastEnding = block[block.length - 1].endsWith('\r') ? '\r' : '';
+    const replacement = reindentLines(newLines, oldLines, block, givenBase, useTabs)
+      .map((line, index, lines) => index === lines.length - 1 ? line + lastEnding : (useCrlf ? line + '\r' : line));
+    scriptLines.splice(start, oldLines.length, ...replacement);
+  }
+
+  return {
+    success: true,
+    script: scriptLines.join('\n'),
+    matchStrategy: strategy
+  };
+}
+
+/**
+ * Re-indent replacement lines to the indentation of the matched block
+ * 
+ * Lines that are unchanged from oldString keep the exact indentation of the line
+ * they matched. New lines keep their indentation relative to the previous line,
+ * scaled from oldString's indent unit to the script's (2 spaces given for a tab
+ * in the script count as one tab).
+ * 
+ * @param newLines - Replacement lines as given
+ * @param oldLines - oldString lines as given
+ * @param block - The script lines that oldLines matched
+ * @param givenBase - Indent width of the first non-empty oldString line
+ * @param useTabs - Render new indentation with tabs
+ */
+function reindentLines(
+  newLines: string[],
+  oldLines: string[],
+  block: string[],
+  givenBase: number,
+  useTabs: boolean
+): string[] {
+  const leading = (line: string) => line.match(/^[ \t]*/)![0];
+  const content = (line: string) => line.replace(/\r$/, '').trim();
+
+  const actualBase = indentWidth(firstIndent(block));
+  const scale = indentScale(oldLines, block, givenBase, actualBase);
+  let prevGiven = givenBase;
+  let prevActual = actualBase;
+  let searchFrom = 0;
+
+  return newLines.map(line => {
+    if (line.trim() === '') return '';
+
+    const given = indentWidth(leading(line));
+
+    // Unchanged line: take the indentation of the script line it matched
+    let matched = -1;
+    for (let k = searchFrom; k < oldLines.length; k++) {
+      if (content(oldLines[k]) === content(line)) {
+        matched = k;
+        break;
+      }
+    }
+
+    let indent: string;
+    if (matched !== -1) {
+      searchFrom = matched + 1;
+      indent = leading(block[matched]);
+    } else {
+      indent = renderIndent(Math.max(0, prevActual + Math.round((given - prevGiven) * scale)), useTabs);
+    }
+
+    prevGiven = given;
+    prevActual = indentWidth(indent);
+    return indent + line.replace(/^[ \t]+/, '');
+  });
+}
+
+/**
+ * Ratio between the script's indent unit and oldString's
+ * Taken from the first oldString line indented relative to the first one; 1 if there is none.
+ */
+function indentScale(oldLines: string[], block: string[], givenBase: number, actualBase: number): number {
+  for (let k = 0; k < oldLines.length; k++) {
+    if (oldLines[k].trim() === '') continue;
+    const given = indentWidth(oldLines[k].match(/^[ \t]*/)![0]) - givenBase;
+    const actual = indentWidth(block[k].match(/^[ \t]*/)![0]) - actualBase;
+    if (given !== 0 && actual !== 0) {
+      return actual / given > 0 ? actual / given : 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Leading whitespace of the first non-empty line
+ */
+function firstIndent(lines: string[]): string {
+  const line = lines.find(l => l.trim() !== '');
+  return line ? line.match(/^[ \t]*/)![0] : '';
+}
+
+/**
+ * Column width of leading whitespace (tabs count as TAB_WIDTH)
+ */
+function indentWidth(indent: string): number {
+  let width = 0;
+  for (const ch of indent) {
+    width += ch === '\t' ? TAB_WIDTH : 1;
+  }
+  return width;
+}
+
+/**
+ * Render an indentation width using tabs (plus remaining spaces) or spaces
+ */
+function renderIndent(width: number, useTabs: boolean): string {
+  return useTabs
+    ? '\t'.repeat(Math.floor(width / TAB_WIDTH)) + ' '.repeat(width % TAB_WIDTH)
+    : ' '.repeat(width);
+}
+
+/**
+ * Result of applying several edits across callbacks
+ */
+export interface MultiEditResult {
+  success: boolean;
+  callbacks?: Record<string, string>;  // Only the callbacks that were edited
+  error?: string;
+  failedEditIndex?: number;            // 0-based index of the edit that failed
+  matchStrategies?: MatchStrategy[];   // How each edit was matched
+}
+
+/**
+ * Apply a list of edits in order (all-or-nothing)
+ * 
+ * Each edit sees the result of the previous edits on the same callback.
+ * If any edit fails, no callbacks are returned so nothing gets sent to HISE.
+ * 
+ * @param scripts - Current content per callback name
+ * @param edits - Edits to apply in order
+ * @returns MultiEditResult with the edited callbacks or the first error
+ */
+export function applyScriptEdits(
+  scripts: Record<string, string>,
+  edits: ScriptEdit[]
+): MultiEditResult {
+  const edited: Record<string, string> = {};
+  const matchStrategies: MatchStrategy[] = [];
+
+  for (let i = 0; i < edits.length; i++) {
+    const edit = edits[i];
+    const current = edited[edit.callback] ?? scripts[edit.callback];
+
+    if (current === undefined) {
+      return {
+        success: false,
+        error: `Edit ${i + 1} of ${edits.length}: callback '${edit.callback}' not found`,
+        failedEditIndex: i,
+      };
+    }
+
+    const result = editStringInScript(current, edit.oldString, edit.newString, edit.replaceAll);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `Edit ${i + 1} of ${edits.length} (${edit.callback}): ${result.error}`,
+        failedEditIndex: i,
+      };
+    }
+
+    edited[edit.callback] = result.script!;
+    matchStrategies.push(result.matchStrategy!);
+  }
+
+  return {
+    success: true,
+    callbacks: edited,
+    matchStrategies,
   };
 }
 
+/**
+ * A single line in a diff
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+  oldIndex: number;  // 0-based position in the old text at this line
+  newIndex: number;  // 0-based position in the new text at this line
+}
+
+/** Above this many LCS cells, changed regions are diffed as one block */
+const MAX_DIFF_CELLS = 16_000_000;
+
+/**
+ * Compute a line diff between two texts (LCS on the region between common prefix/suffix)
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let endOld = oldLines.length;
+  let endNew = newLines.length;
+  while (endOld > start && endNew > start && oldLines[endOld - 1] === newLines[endNew - 1]) {
+    endOld--;
+    endNew--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: ' ', text: oldLines[i], oldIndex: i, newIndex: i });
+  }
+
+  const n = endOld - start;
+  const m = endNew - start;
+  let oldIndex = start;
+  let newIndex = start;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    for (let i = start; i < endOld; i++) {
+      result.push({ type: '-', text: oldLines[i], oldIndex: oldIndex++, newIndex });
+    }
+    for (let j = start; j < endNew; j++) {
+      result.push({ type: '+', text: newLines[j], oldIndex, newIndex: newIndex++ });
+    }
+  } else {
+    // lcs[i][j] = length of the LCS of the suffixes starting at i / j
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = oldLines[start + i] === newLines[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldLines[start + i] === newLines[start + j]) {
+        result.push({ type: ' ', text: oldLines[start + i], oldIndex: oldIndex++, newIndex: newIndex++ });
+        i++;
+        j++;
+      } else if (i < n && (j >= m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        result.push({ type: '-', text: oldLines[start + i], oldIndex: oldIndex++, newIndex });
+        i++;
+      } else {
+        result.push({ type: '+', text: newLines[start + j], oldIndex, newIndex: newIndex++ });
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - endOld; k++) {
+    result.push({ type: ' ', text: oldLines[endOld + k], oldIndex: oldIndex++, newIndex: newIndex++ });
+  }
+
+  return result;
+}
+
+/**
+ * Create a unified diff between two versions of a script
+ * 
+ * @param oldScript - The original script content
+ * @param newScript - The changed script content
+ * @param oldLabel - Label for the --- header (e.g., "Interface.onInit (live)")
+ * @param newLabel - Label for the +++ header
+ * @param contextLines - Unchanged lines shown around each change (default: 3)
+ * @returns The diff text, or an empty string if both versions are identical
+ */
+export function createUnifiedDiff(
+  oldScript: string,
+  newScript: string,
+  oldLabel: string = 'a',
+  newLabel: string = 'b',
+  contextLines: number = 3
+): string {
+  if (oldScript === newScript) {
+    return '';
+  }
+
+  // An empty script has no lines (rather than one empty line)
+  const toLines = (script: string) => (script === '' ? [] : script.split('\n'));
+  const lines = diffLines(toLines(oldScript), toLines(newScript));
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === ' ') {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while the unchanged gap to the next change is small enough
+    const hunkStart = Math.max(0, i - contextLines);
+    let lastChange = i;
+    let j = i + 1;
+    while (j < lines.length) {
+      if (lines[j].type !== ' ') {
+        lastChange = j;
+        j++;
+        continue;
+      }
+      let k = j;
+      while (k < lines.length && lines[k].type === ' ') k++;
+      if (k < lines.length && k - j <= contextLines * 2) {
+        j = k;
+        continue;
+      }
+      break;
+    }
+    const hunkEnd = Math.min(lines.length, lastChange + contextLines + 1);
+    const hunk = lines.slice(hunkStart, hunkEnd);
+
+    const oldCount = hunk.filter(l => l.type !== '+').length;
+    const newCount = hunk.filter(l => l.type !== '-').length;
+    const oldStart = oldCount ? hunk[0].oldIndex + 1 : hunk[0].oldIndex;
+    const newStart = newCount ? hunk[0].newIndex + 1 : hunk[0].newIndex;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type}${line.text}`);
+    }
+
+    i = hunkEnd;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Resolve a file path inside a folder, rejecting anything that escapes it
+ * 
+ * Relative paths are resolved against the folder. Absolute paths are allowed
+ * only if they point inside the folder. This is a lexical check - callers that
+ * touch the filesystem must also check the real path to catch symlinks.
+ * 
+ * @param folder - The sandbox folder (e.g. the project's scripts folder)
+ * @param file - Relative or absolute file path
+ * @returns The absolute path, or null if it is outside the folder
+ */
+export function resolvePathInFolder(folder: string, file: string): string | null {
+  const root = resolve(folder);
+  const resolved = resolve(root, file);
+  const rel = relative(root, resolved);
+
+  if (rel === '' || rel === '..' || rel.startsWith('..' + sep) || isAbsolute(rel)) {
+    return null;
+  }
+  return resolved;
+}
+
 /**
  * Check if set_script should be allowed for an existing callback
  * 
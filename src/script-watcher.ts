@@ -0,0 +1,153 @@
+import { readdirSync, statSync, watch, type FSWatcher } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Watches a folder and reports saved files in batches
+ *
+ * Changes are collected until the folder has been quiet for debounceMs, then
+ * onChange gets the relative paths (forward slashes). Batches never overlap:
+ * files saved while onChange runs are reported in the next batch.
+ *
+ * Where recursive fs.watch is unavailable (Linux before Node 20), each folder
+ * gets its own watcher, and folders created later are picked up as they appear.
+ */
+export class ScriptWatcher {
+  private directory: string;
+  private onChange: (files: string[]) => Promise<void>;
+  private debounceMs: number;
+  private ignore: Set<string>;
+  private watchers: Map<string, FSWatcher> = new Map();  // By relative folder ('' for the root)
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private changed = new Set<string>();
+  private running: Promise<void> | null = null;
+
+  /**
+   * @param directory - Folder to watch (including subfolders)
+   * @param onChange - Called with the changed files; errors are the caller's to handle
+   * @param debounceMs - Quiet time before a batch is reported
+   * @param ignore - Relative paths to skip (e.g. a manifest onChange writes itself)
+   */
+  constructor(
+    directory: string,
+    onChange: (files: string[]) => Promise<void>,
+    debounceMs: number = 300,
+    ignore: string[] = []
+  ) {
+    this.directory = directory;
+    this.onChange = onChange;
+    this.debounceMs = debounceMs;
+    this.ignore = new Set(ignore);
+  }
+
+  start(): void {
+    this.stop();
+    try {
+      this.watchFolder('', true);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw err;
+      this.watchTree('', false);
+    }
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.changed.clear();
+  }
+
+  /**
+   * Report the pending changes now instead of after the debounce
+   * Resolves once they (and any batch already running) have been handled.
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    while (this.running) {
+      await this.running;
+    }
+    if (this.changed.size === 0) return;
+
+    const files = [...this.changed].sort();
+    this.changed.clear();
+    this.running = this.onChange(files).catch(() => {}).finally(() => {
+      this.running = null;
+    });
+    await this.running;
+  }
+
+  private watchFolder(folder: string, recursive: boolean): void {
+    const watcher = watch(join(this.directory, folder), { recursive }, (_event, filename) => {
+      if (!filename) return;
+      const name = filename.replace(/\\/g, '/');
+      const file = folder ? `${folder}/${name}` : name;
+      if (!recursive && this.isFolder(file)) {
+        try {
+          this.watchTree(file, true);
+        } catch {
+          // Removed again before it could be watched
+        }
+        return;
+      }
+      this.report(file);
+    });
+    // A watched folder that is deleted ends its watcher
+    watcher.on('error', () => {
+      watcher.close();
+      this.watchers.delete(folder);
+    });
+    // Like the connectivity monitor, watching alone doesn't keep the process alive
+    watcher.unref();
+    this.watchers.set(folder, watcher);
+  }
+
+  /**
+   * Watch a folder and its subfolders one by one
+   *
+   * @param reportFiles - Report the files already there (for a folder created after
+   *   start(), whose files may have been written before its watcher existed)
+   */
+  private watchTree(folder: string, reportFiles: boolean): void {
+    if (this.watchers.has(folder)) return;
+    this.watchFolder(folder, false);
+    for (const entry of readdirSync(join(this.directory, folder), { withFileTypes: true })) {
+      const path = folder ? `${folder}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        this.watchTree(path, reportFiles);
+      } else if (reportFiles) {
+        this.report(path);
+      }
+    }
+  }
+
+  private isFolder(file: string): boolean {
+    try {
+      return statSync(join(this.directory, file)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private report(file: string): void {
+    if (this.ignore.has(file)) return;
+    this.changed.add(file);
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.debounceMs);
+  }
+}
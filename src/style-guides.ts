@@ -204,7 +204,7 @@ hise_runtime_set_script({
 })
 \`\`\`
 
-Use \`hise_runtime_edit_script\` to modify existing code - it works like the native mcp_edit tool (find exact string, replace with new string). For multiple edits, use \`compile: false\` on all but the last call.
+Use \`hise_runtime_edit_script\` to modify existing code - it works like the native mcp_edit tool (find exact string, replace with new string). For multiple edits, pass them as \`edits: [...]\` in a single call - they apply all-or-nothing with one compile.
 
 ## The obj Parameter
 
@@ -107,14 +107,27 @@ export interface ServerStatusBase {
   };
 }
 
+/**
+ * Error pattern registry status (data/error_patterns.json)
+ */
+export interface ErrorPatternStats {
+  source: string;
+  loaded: number;                 // Number of valid patterns
+  loadErrors: string[];           // Skipped entries or file errors
+  hits: Record<string, number>;   // Matches per pattern id since server start
+}
+
 export interface ServerStatus extends ServerStatusBase {
   mode: 'local' | 'production';
   hiseRuntime: {
     available: boolean;
+    instance: string;       // Name from HISE_INSTANCES ("default" without it)
     url: string;
     project: string | null;
     error: string | null;
+    circuit: CircuitBreakerState;
   };
+  errorPatterns: ErrorPatternStats;
   hints: {
     resources: string;
   };
@@ -165,6 +178,19 @@ export interface HiseError {
   codeContext?: ErrorCodeContext;
   /** Suggestions for fixing the error (from pattern matching + API search) */
   suggestions?: string[];
+  /** Machine-applicable fixes from error patterns (pass to edit_script as edits[]) */
+  fixes?: AutoFix[];
+}
+
+/**
+ * Auto-fix proposal for an error, usable as an edit_script edit
+ */
+export interface AutoFix {
+  patternId: string;    // Error pattern that produced the fix
+  description: string;
+  callback: string;
+  oldString: string;
+  newString: string;
 }
 
 /**
@@ -221,10 +247,40 @@ export interface HiseScriptResponse {
   moduleId: string;
   callbacks: Record<string, string>;  // e.g., { "onInit": "...", "onNoteOn": "function onNoteOn() {...}" }
   externalFiles: HiseExternalFile[];  // Files referenced via include()
+  hashes?: Record<string, string>;    // Content hash per callback (added by client, use as expectedHash)
   logs: string[];
   errors: HiseError[];
 }
 
+/**
+ * Parameters for a ranged get_script (by lines or by outline symbol)
+ */
+export interface GetScriptRangeParams {
+  moduleId: string;
+  callback?: string;   // Callback or file is required for startLine/endLine
+  file?: string;       // include()d file relative to the Scripts folder, instead of a callback
+  startLine?: number;  // 1-based, inclusive
+  endLine?: number;    // Inclusive (default: last line)
+  symbol?: string;     // Outline symbol name, optionally namespace-qualified ("Synth.setGain"); without callback or file, all are searched
+  hash?: string;       // Hash from an earlier read of a callback - served from the cache while it matches
+}
+
+/**
+ * Slice of a callback or include()d file returned by a ranged get_script
+ */
+export interface ScriptRangeResult {
+  moduleId: string;
+  callback?: string;   // Set for callbacks
+  file?: string;       // Set for include()d files
+  symbol?: OutlineSymbol;
+  startLine: number;
+  endLine: number;
+  lineCount: number;   // Lines in the whole callback or file
+  code: string;        // "14: ..." numbered lines
+  hash: string;        // Hash of the whole callback or file (use as expectedHash when writing a callback)
+  fromCache: boolean;  // True if HISE wasn't asked (hash matched the cached copy)
+}
+
 /**
  * Response from POST /api/set_script and POST /api/recompile
  */
@@ -232,6 +288,8 @@ export interface HiseCompileResponse {
   success: boolean;
   moduleId?: string;
   updatedCallbacks?: string[];  // Which callbacks were updated
+  hashes?: Record<string, string>;  // New content hash per updated callback (added by client)
+  matchStrategies?: MatchStrategy[];  // How each edit_script edit was matched (added by client)
   result?: string;
   logs: string[];
   errors: HiseError[];
@@ -261,6 +319,19 @@ export interface SetScriptParams {
   moduleId: string;
   callbacks: Record<string, string>;  // e.g., { "onInit": "...", "onNoteOn": "..." }
   compile?: boolean;
+  expectedHashes?: Record<string, string>;  // Reject if a live callback no longer has this hash
+}
+
+/**
+ * Result of a dry-run set_script/edit_script (nothing is sent to HISE)
+ */
+export interface ScriptPreviewResult {
+  dryRun: true;
+  moduleId: string;
+  changedCallbacks: string[];
+  diff: string;                    // Unified diff of all changed callbacks
+  hashes: Record<string, string>;  // Current hash per callback (pass as expectedHash to apply exactly this diff)
+  matchStrategies?: MatchStrategy[];  // How each edit was matched (edit_script only)
 }
 
 /**
@@ -273,6 +344,43 @@ export interface CachedScript {
   hash: string;  // SHA256 hash (first 16 chars) for cache validation
 }
 
+/**
+ * Pre-write snapshot of a callback (for undo via restore_script)
+ */
+export interface ScriptSnapshot {
+  script: string;
+  timestamp: number;
+  hash: string;  // Same hash as CachedScript.hash
+}
+
+/**
+ * Snapshot summary returned by list_script_history (without script content)
+ */
+export interface ScriptHistoryEntry {
+  callback: string;
+  hash: string;
+  timestamp: string;   // ISO date
+  lineCount: number;
+}
+
+/**
+ * Result of list_script_history
+ */
+export interface ScriptHistoryResult {
+  moduleId: string;
+  entries: ScriptHistoryEntry[];  // Newest first
+}
+
+/**
+ * Parameters for restore_script
+ */
+export interface RestoreScriptParams {
+  moduleId: string;
+  callback: string;
+  hash?: string;       // Snapshot hash or unique prefix (default: most recent snapshot)
+  compile?: boolean;   // Default: true
+}
+
 /**
  * Parameters for edit_script (string replacement, works like native mcp_edit)
  */
@@ -283,6 +391,356 @@ export interface EditScriptParams {
   newString: string;   // Replacement string
   replaceAll?: boolean; // Replace all occurrences (default: false)
   compile?: boolean;   // Default: true
+  expectedHash?: string; // Reject if the live callback no longer has this hash
+}
+
+/**
+ * How an edit's oldString was matched against the script
+ * - exact: byte-exact match
+ * - line-endings: match after converting CRLF/LF to the script's line endings
+ * - indentation: whole-line match ignoring leading whitespace (tabs vs spaces)
+ * - trimmed-lines: whole-line match ignoring leading and trailing whitespace
+ */
+export type MatchStrategy = 'exact' | 'line-endings' | 'indentation' | 'trimmed-lines';
+
+/**
+ * A single string replacement within one callback
+ */
+export interface ScriptEdit {
+  callback: string;
+  oldString: string;   // Exact string to find and replace
+  newString: string;   // Replacement string
+  replaceAll?: boolean; // Replace all occurrences (default: false)
+}
+
+/**
+ * Parameters for a multi-edit transaction (all edits apply, or none do)
+ */
+export interface MultiEditScriptParams {
+  moduleId: string;
+  edits: ScriptEdit[];  // Applied in order, may span several callbacks
+  compile?: boolean;    // Default: true (single compile after all edits)
+  expectedHashes?: Record<string, string>;  // Reject if a live callback no longer has this hash
+}
+
+/**
+ * Content of an include()d script file (read from the project's scripts folder)
+ */
+export interface ExternalFileContent {
+  file: string;        // Path relative to the scripts folder
+  path: string;        // Full path to the file
+  content: string;
+  hash: string;        // Content hash (use as expectedHash for edit_external_file)
+  lineCount: number;
+  owners: string[];    // Script processors that include() this file
+}
+
+/**
+ * Parameters for edit_external_file (string replacement in an include()d file)
+ */
+export interface EditExternalFileParams {
+  file: string;        // Path relative to the scripts folder
+  oldString: string;   // Exact string to find and replace
+  newString: string;   // Replacement string
+  replaceAll?: boolean; // Replace all occurrences (default: false)
+  compile?: boolean;   // Recompile the owning processors (default: true)
+  expectedHash?: string; // Reject if the file no longer has this hash
+}
+
+/**
+ * Result of edit_external_file
+ */
+export interface EditExternalFileResult {
+  success: boolean;    // False if any owning processor failed to compile
+  file: string;
+  path: string;
+  hash: string;        // New content hash
+  matchStrategy: MatchStrategy;
+  owners: string[];
+  recompiled: HiseCompileResponse[];  // One per owning processor (empty if compile: false)
+}
+
+/**
+ * Manifest of a script export folder (hise-scripts.json)
+ * Hashes are recorded at export time, so an import can tell who changed what.
+ */
+export interface ScriptExportManifest {
+  version: 1;
+  project: string | null;
+  exportedAt: string;   // ISO date
+  processors: Record<string, {
+    folder: string;                     // Folder name inside the export
+    callbacks: Record<string, string>;  // Callback -> hash
+  }>;
+  includes: Record<string, string>;     // Path relative to the scripts folder -> hash
+}
+
+/**
+ * Result of export_scripts
+ */
+export interface ExportScriptsResult {
+  directory: string;
+  processors: { moduleId: string; folder: string; callbacks: string[] }[];
+  includes: string[];   // Paths relative to the scripts folder
+  fileCount: number;
+}
+
+/**
+ * What importing a file does
+ * - unchanged: file matches HISE
+ * - apply: only the file changed since the export
+ * - changedInHise: only HISE changed since the export (HISE's version is kept)
+ * - conflict: both changed (only applied with force)
+ */
+export type ScriptImportAction = 'unchanged' | 'apply' | 'changedInHise' | 'conflict';
+
+/**
+ * Parameters for import_scripts
+ */
+export interface ImportScriptsParams {
+  directory: string;
+  dryRun?: boolean;
+  force?: boolean;     // Apply conflicting files too
+  compile?: boolean;
+  files?: string[];    // Only compare these paths in the export (e.g. "Interface/onInit.js")
+}
+
+/**
+ * Result of import_scripts
+ */
+export interface ImportScriptsResult {
+  success: boolean;    // False if a recompile failed or the import stopped part-way
+  dryRun: boolean;
+  directory: string;
+  changes: { target: string; action: ScriptImportAction }[];  // "Interface.onInit" or "includes/Helpers.js"
+  diff: string;        // Unified diff of what was (or would be) applied
+  recompiled: HiseCompileResponse[];
+  notImported?: string[];  // Processors left out after a write failed (the manifest keeps their old hashes)
+  error?: string;          // Why the import stopped part-way
+}
+
+/**
+ * Parameters for search_scripts
+ */
+export interface SearchScriptsParams {
+  query: string;
+  regex?: boolean;          // Treat query as a regular expression (default: literal text)
+  caseSensitive?: boolean;
+  moduleIds?: string[];     // Only search these processors and their include files (default: all)
+  includeExternalFiles?: boolean;  // Search include()d files too (default: true)
+  contextLines?: number;    // Lines shown around each hit (default: 2)
+  maxResults?: number;      // Stop after this many hits (default: 100)
+}
+
+/**
+ * One search hit - in a callback (moduleId + callback) or an include()d file (file)
+ */
+export interface ScriptSearchHit {
+  moduleId?: string;
+  callback?: string;
+  file?: string;            // Path relative to the scripts folder
+  line: number;
+  column: number;
+  code: string;             // Hit with surrounding lines, "14: ..." numbered
+}
+
+/**
+ * Result of search_scripts
+ */
+export interface SearchScriptsResult {
+  hits: ScriptSearchHit[];
+  totalHits: number;        // All hits, including those cut off by maxResults
+  truncated: boolean;
+  searched: { callbacks: number; files: number };
+}
+
+/**
+ * Kind of a top-level HiseScript declaration in an outline
+ */
+export type OutlineSymbolKind = 'namespace' | 'inline function' | 'function' | 'const var' | 'reg' | 'component';
+
+/**
+ * A declaration in a script outline (lines are 1-based and inclusive)
+ */
+export interface OutlineSymbol {
+  kind: OutlineSymbolKind;
+  name: string;
+  startLine: number;
+  endLine: number;
+  namespace?: string;       // Enclosing namespace
+  componentId?: string;     // For component: the ID passed to Content.getComponent()
+}
+
+/**
+ * Outline of one callback or file
+ */
+export interface ScriptOutline {
+  lineCount: number;
+  symbols: OutlineSymbol[];
+}
+
+/**
+ * Position of a symbol in a callback (moduleId + callback) or an include()d file (file)
+ */
+export interface SymbolLocation {
+  moduleId: string;
+  callback?: string;
+  file?: string;       // Path relative to the scripts folder
+  line: number;
+  column: number;
+  location: string;    // Callstack style: "onInit() at Interface.js:4:11" or "Helpers.js:3:12"
+  code: string;        // "14: ..." numbered line(s)
+}
+
+/**
+ * Result of find_definition
+ */
+export interface FindDefinitionResult {
+  name: string;
+  definitions: (SymbolLocation & { symbol: OutlineSymbol })[];
+}
+
+/**
+ * Result of find_references
+ */
+export interface FindReferencesResult {
+  name: string;
+  qualifiedName: string;   // Name that was searched ("Synth.setGain" for a namespace member)
+  references: (SymbolLocation & { isDefinition: boolean })[];
+  searched: { callbacks: number; files: number };
+}
+
+/**
+ * Parameters for rename_symbol
+ */
+export interface RenameSymbolParams {
+  moduleId: string;
+  name: string;        // Identifier or Namespace.member
+  newName: string;     // Plain identifier (a namespace member keeps its namespace)
+  dryRun?: boolean;    // Only return the diff
+  compile?: boolean;
+}
+
+/**
+ * Result of rename_symbol
+ */
+export interface RenameSymbolResult {
+  success: boolean;    // False if the compile failed
+  dryRun: boolean;
+  moduleId: string;
+  qualifiedName: string;
+  newName: string;     // Qualified like qualifiedName
+  changes: { callback?: string; file?: string; occurrences: number }[];
+  diff: string;        // Unified diff of all changed callbacks and files
+  compileResult?: HiseCompileResponse;  // Absent for dry runs (and compile: false with only include files changed)
+}
+
+/**
+ * Result of get_outline
+ */
+export interface ProcessorOutline {
+  moduleId: string;
+  callbacks: Record<string, ScriptOutline>;      // Empty callbacks are left out
+  hashes: Record<string, string>;                // Content hash per callback (pass to get_script with a range)
+  externalFiles: Record<string, ScriptOutline>;  // Keyed by path relative to the scripts folder
+}
+
+/**
+ * Severity of a console entry
+ * Console.print output is 'info' unless the text marks it as a warning or error.
+ */
+export type ConsoleSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * A captured console line (from the logs/errors of any HISE response)
+ */
+export interface ConsoleEntry {
+  id: number;            // Increasing sequence number
+  timestamp: string;     // ISO date when the client received it
+  severity: ConsoleSeverity;
+  module: string | null; // Script processor that produced it, if known
+  message: string;
+}
+
+/**
+ * Filter for get_console
+ */
+export interface ConsoleQuery {
+  module?: string;
+  pattern?: string;      // Regex matched against the message (case-insensitive)
+  severity?: ConsoleSeverity;  // Minimum severity
+  sinceLastCall?: boolean;     // Only entries captured since the previous query
+  limit?: number;        // Return the newest N matches (default: 100)
+}
+
+/**
+ * Result of get_console
+ */
+export interface ConsoleQueryResult {
+  entries: ConsoleEntry[];     // Oldest first
+  matched: number;             // Matches before applying limit
+  buffered: number;            // Entries currently held in the ring buffer
+  dropped: number;             // Entries evicted from the buffer before they could be returned
+  refreshError?: string;       // Set if HISE could not be polled (buffered entries are still returned)
+}
+
+/**
+ * One recorded HISE REST exchange (a line in a JSONL cassette)
+ */
+export interface CassetteEntry {
+  timestamp: string;     // ISO date of the request
+  method: 'GET' | 'POST';
+  path: string;          // Including query string
+  body?: Record<string, unknown>;
+  response?: unknown;    // Parsed JSON response
+  error?: string;        // Set instead of response if the request failed
+  durationMs: number;
+}
+
+/**
+ * Circuit breaker state of a HISE client
+ * Open: requests fail immediately. Half-open: the next request is a trial.
+ */
+export interface CircuitBreakerState {
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  retryInMs: number;     // Time until requests are let through again (0 unless open)
+}
+
+/**
+ * Per-call context of an MCP tools/call, available to all HiseClient methods
+ */
+export interface ToolRequestContext {
+  signal?: AbortSignal;                                          // Aborted when the client cancels the call
+  onProgress?: (message: string, step?: ProgressStep) => void;  // Set if the client sent a progress token
+}
+
+/**
+ * Position in a counted loop of a tool call (e.g. processor 2 of 5)
+ */
+export interface ProgressStep {
+  current: number;  // 1-based
+  total: number;
+}
+
+/**
+ * A named HISE instance the runtime tools can target (from HISE_INSTANCES)
+ */
+export interface HiseInstanceConfig {
+  name: string;
+  url: string;           // REST API base URL, e.g. http://localhost:1900
+}
+
+/**
+ * Result entry of hise_runtime_list_instances
+ */
+export interface HiseInstanceInfo extends HiseInstanceConfig {
+  isDefault: boolean;    // Used when a tool call has no instance argument
+  available: boolean;
+  project: string | null;
+  version: string | null;
+  unsupportedTools: string[];  // Runtime tools needing a newer HISE, or calling endpoints this build answered with 404
+  error: string | null;
 }
 
 /**
@@ -16,7 +16,7 @@ export const WORKFLOWS: Workflow[] = [
       '1. Call hise_runtime_recompile to get current error',
       '2. If success=true, done - no errors remain',
       '3. Analyze errors[0].codeContext for the problematic code',
-      '4. Check errors[0].suggestions - if present, apply the suggested fix directly',
+      '4. If errors[0].fixes is present, pass it to hise_runtime_edit_script as edits[] and go to step 7; otherwise check errors[0].suggestions and apply the suggested fix directly',
       '5. If error is "Function / constant not found", use search_hise or query_scripting_api to find the correct API',
       '6. Call hise_runtime_edit_script to fix the error (find the broken code string, replace with corrected version)',
       '7. If response has errors, repeat from step 3',
@@ -25,9 +25,10 @@ export const WORKFLOWS: Workflow[] = [
     tips: [
       'The compiler stops at the first syntax error - fix iteratively',
       'If suggestions[] is populated, it contains pattern-matched fix recommendations',
+      'fixes[] entries are ready-to-use {callback, oldString, newString} edits - check the description before applying',
       'For "Unknown function" errors, search_hise can find similar API methods',
       'edit_script works like mcp_edit - find exact string match and replace',
-      'For multiple fixes, use compile:false on all but the last edit to save time',
+      'For multiple fixes, pass them as edits[] in one edit_script call - all-or-nothing with a single compile',
       'Use codeContext from errors to identify the exact string to replace',
     ],
   },
@@ -0,0 +1,61 @@
+/**
+ * Mock HISE project for integration tests
+ */
+
+import { join } from 'node:path';
+import type { MockHiseState } from '../mocks/mock-hise-server.ts';
+
+export const INTERFACE_ON_INIT = `Content.makeFrontInterface(600, 400);
+
+const var Knob1 = Content.getComponent("Knob1");
+const var Panel1 = Content.getComponent("Panel1");
+
+Panel1.setPaintRoutine(function(g)
+{
+\tg.fillRect(0, 0, 10, 10);
+});`;
+
+/**
+ * Mock HISE state with an Interface processor, a few components and an include()d file
+ *
+ * @param scriptsFolder - Folder reported as project.scriptsFolder (Helpers.js lives there)
+ */
+export function createMockProject(scriptsFolder: string): MockHiseState {
+  return {
+    project: { name: 'MockProject', projectFolder: join(scriptsFolder, '..'), scriptsFolder },
+    processors: [
+      {
+        moduleId: 'Interface',
+        isMainInterface: true,
+        callbacks: {
+          onInit: INTERFACE_ON_INIT,
+          onNoteOn: 'function onNoteOn()\n{\n\t\n}',
+        },
+        externalFiles: [{ name: 'Helpers.js', path: join(scriptsFolder, 'Helpers.js') }],
+        components: [
+          {
+            id: 'Knob1',
+            type: 'ScriptSlider',
+            properties: { x: 10, y: 10, width: 128, height: 48, text: 'Gain' },
+            defaults: { width: 128, height: 48 },
+            value: 0.5,
+            min: 0,
+            max: 1,
+          },
+          {
+            id: 'Panel1',
+            type: 'ScriptPanel',
+            properties: { x: 200, y: 10, width: 300, height: 200 },
+          },
+          {
+            id: 'Button1',
+            type: 'ScriptButton',
+            parentId: 'Panel1',
+            properties: { x: 10, y: 10, width: 100, height: 30 },
+          },
+        ],
+      },
+    ],
+    selection: ['Knob1'],
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Minimal Scripting API index for testing
+ */
+
+import type { ScriptingAPIMethod } from '../../src/types.ts';
+
+function method(namespace: string, methodName: string, params: string[], extra: Partial<ScriptingAPIMethod> = {}): ScriptingAPIMethod {
+  return {
+    id: methodName,
+    namespace,
+    methodName,
+    returnType: 'var',
+    parameters: params.map(name => ({ name, type: 'unknown', description: '', optional: false })),
+    description: '',
+    ...extra,
+  };
+}
+
+const METHODS: ScriptingAPIMethod[] = [
+  method('Console', 'print', ['var debug']),
+  method('Content', 'getComponent', ['var name']),
+  method('Synth', 'addNoteOn', ['int channel', 'int noteNumber', 'int velocity', 'int timeStampSamples']),
+  method('Math', 'max', ['var value1', 'var value2']),
+  method('Engine', 'loadFont', ['String fileName'], { deprecated: true, replacement: 'loadFontAs()' }),
+  method('Engine', 'loadFontAs', ['String fileName', 'String fontId']),
+];
+
+export const SAMPLE_API_INDEX: Map<string, ScriptingAPIMethod> = new Map(
+  METHODS.map(m => [`${m.namespace}.${m.methodName}`.toLowerCase(), m])
+);
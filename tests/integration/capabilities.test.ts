@@ -0,0 +1,119 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MockHiseServer } from '../mocks/mock-hise-server.ts';
+import { callTool, connectMcpServer } from '../mocks/mcp-session.ts';
+import { createMockProject } from '../fixtures/mock-project.ts';
+import type { HiseInstanceInfo, HiseScriptResponse } from '../../src/types.ts';
+
+describe('HISE version and endpoint capabilities and response validation', () => {
+  let dir: string;
+  let mock: MockHiseServer;
+  let port: number;
+  let client: Client;
+  let listChanged: () => void = () => {};
+
+  const toolNames = async () => (await client.listTools()).tools.map(t => t.name);
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'capabilities-'));
+    // /api/recompile ships with 4.0.0, but this build doesn't serve it
+    mock = new MockHiseServer({ ...createMockProject(dir), version: '4.0.0', missingEndpoints: ['/api/recompile'] });
+    const baseUrl = await mock.start();
+    port = Number(new URL(baseUrl).port);
+    client = await connectMcpServer({ HISE_API_URL: baseUrl, HISE_MONITOR_INTERVAL: '500' });
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => listChanged());
+  });
+
+  after(async () => {
+    await client?.close();
+    await mock?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  it('should hide tools the connected HISE version does not support', async () => {
+    const names = await toolNames();
+
+    assert.ok(!names.includes('hise_runtime_screenshot'));
+    assert.ok(names.includes('hise_runtime_get_script'));
+  });
+
+  it('should explain which version a tool requires', async () => {
+    const result = await callTool(client, 'hise_runtime_screenshot', { moduleId: 'Interface' });
+
+    assert.strictEqual(result.isError, true);
+    assert.ok(result.text.includes('requires HISE 4.1.0 or newer (connected: HISE 4.0.0)'), result.text);
+    assert.strictEqual(mock.requestsTo('/api/screenshot').length, 0);
+  });
+
+  it('should list tools until HISE reports their endpoint missing', async () => {
+    assert.ok((await toolNames()).includes('hise_runtime_recompile'));
+
+    const first = await callTool(client, 'hise_runtime_recompile', { moduleId: 'Interface' });
+    assert.strictEqual(first.isError, true);
+    assert.ok(!(await toolNames()).includes('hise_runtime_recompile'));
+
+    const again = await callTool(client, 'hise_runtime_recompile', { moduleId: 'Interface' });
+    assert.ok(again.text.includes('needs /api/recompile, which the connected HISE build (4.0.0) does not provide'), again.text);
+    assert.strictEqual(mock.requestsTo('/api/recompile').length, 1);
+  });
+
+  it('hise_runtime_list_instances reports unsupported tools', async () => {
+    const { json } = await callTool<{ instances: HiseInstanceInfo[] }>(client, 'hise_runtime_list_instances');
+
+    assert.ok(json.instances[0].unsupportedTools.includes('hise_runtime_screenshot'));
+    assert.ok(json.instances[0].unsupportedTools.includes('hise_runtime_recompile'));
+    assert.ok(!json.instances[0].unsupportedTools.includes('hise_runtime_get_script'));
+  });
+
+  it('should try missing endpoints again after HISE reconnects', async () => {
+    const nextListChange = () => new Promise<void>(resolve => { listChanged = resolve; });
+
+    let changed = nextListChange();
+    await mock.stop();
+    await changed;
+    changed = nextListChange();
+    await mock.start(port);
+    await changed;
+
+    assert.ok((await toolNames()).includes('hise_runtime_recompile'));
+  });
+
+  it('should reject responses with an unexpected shape', async () => {
+    mock.overrideResponse('/api/get_script', { success: true, moduleId: 'Interface', callbacks: ['onInit'], logs: [], errors: [] });
+
+    const result = await callTool(client, 'hise_runtime_get_script', { moduleId: 'Interface' });
+    assert.strictEqual(result.isError, true);
+    assert.ok(result.text.includes('Unexpected response from HISE /api/get_script: callbacks: expected object, got array'), result.text);
+  });
+
+  it('should drop cached scripts when a write gets an unexpected response', async () => {
+    const processor = mock.getProcessor('Interface')!;
+    const original = processor.callbacks.onNoteOn;
+    const written = 'function onNoteOn()\n{\n\tConsole.print(2);\n}';
+    const read = await callTool<HiseScriptResponse>(client, 'hise_runtime_get_script', { moduleId: 'Interface', callback: 'onNoteOn' });
+
+    mock.overrideResponse('/api/set_script', { success: true, moduleId: 'Interface', updatedCallbacks: 'onNoteOn', logs: [], errors: [] });
+    const result = await callTool(client, 'hise_runtime_set_script', { moduleId: 'Interface', callbacks: { onNoteOn: written } });
+    assert.strictEqual(result.isError, true);
+
+    // HISE applied the write - a read with the old hash must not be served from the cache
+    processor.callbacks.onNoteOn = written;
+    const range = await callTool(client, 'hise_runtime_get_script', {
+      moduleId: 'Interface',
+      callback: 'onNoteOn',
+      startLine: 1,
+      hash: read.json.hashes!.onNoteOn,
+    });
+    assert.ok(range.text.includes('Console.print(2)'), range.text);
+    processor.callbacks.onNoteOn = original;
+  });
+});
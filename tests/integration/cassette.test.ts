@@ -0,0 +1,69 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MockHiseServer } from '../mocks/mock-hise-server.ts';
+import { callTool, connectMcpServer, type ToolResult } from '../mocks/mcp-session.ts';
+import { createMockProject } from '../fixtures/mock-project.ts';
+import type { HiseCompileResponse } from '../../src/types.ts';
+
+const SESSION: [string, Record<string, unknown>][] = [
+  ['hise_runtime_status', {}],
+  ['hise_runtime_get_script', { moduleId: 'Interface', callback: 'onInit' }],
+  ['hise_runtime_recompile', { moduleId: 'Interface' }],
+  ['hise_runtime_list_components', { moduleId: 'Interface' }],
+];
+
+async function runSession(env: Record<string, string>): Promise<ToolResult[]> {
+  const client = await connectMcpServer(env);
+  try {
+    const results: ToolResult[] = [];
+    for (const [name, args] of SESSION) {
+      results.push(await callTool(client, name, args));
+    }
+    return results;
+  } finally {
+    await client.close();
+  }
+}
+
+describe('cassette record and replay', () => {
+  let dir: string;
+  let cassette: string;
+  let recorded: ToolResult[];
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'cassette-session-'));
+    cassette = join(dir, 'session.jsonl');
+    writeFileSync(join(dir, 'Helpers.js'), 'namespace Helpers\n{\n}\n');
+
+    const mock = new MockHiseServer(createMockProject(dir));
+    mock.failCompileWhen(/g\.fillRect\(0, 0/, 'argument amount mismatch: 4. Expected: 1');
+    const baseUrl = await mock.start();
+    try {
+      recorded = await runSession({ HISE_API_URL: baseUrl, HISE_RECORD_CASSETTE: cassette });
+    } finally {
+      await mock.stop();
+    }
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should record every request to the cassette', () => {
+    const paths = readFileSync(cassette, 'utf8').trim().split('\n').map(line => JSON.parse(line).path);
+
+    assert.ok(paths.includes('/api/status'));
+    assert.ok(paths.includes('/api/recompile'));
+    assert.ok(paths.some(p => p.startsWith('/api/get_script?')));
+  });
+
+  it('should replay the session without HISE', async () => {
+    const replayed = await runSession({ HISE_API_URL: 'http://127.0.0.1:1', HISE_REPLAY_CASSETTE: cassette });
+
+    assert.strictEqual((recorded[2].json as HiseCompileResponse).success, false);
+    assert.deepStrictEqual(replayed, recorded);
+  });
+});
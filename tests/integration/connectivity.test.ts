@@ -0,0 +1,63 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MockHiseServer } from '../mocks/mock-hise-server.ts';
+import { connectMcpServer } from '../mocks/mcp-session.ts';
+import { createMockProject } from '../fixtures/mock-project.ts';
+
+describe('runtime tools follow HISE connectivity', () => {
+  let dir: string;
+  let mock: MockHiseServer;
+  let port: number;
+  let client: Client;
+  let listChanged: () => void = () => {};
+
+  function nextListChange(): Promise<void> {
+    return new Promise(resolve => { listChanged = resolve; });
+  }
+
+  async function runtimeToolCount(): Promise<number> {
+    const { tools } = await client.listTools();
+    return tools.filter(t => t.name.startsWith('hise_runtime_')).length;
+  }
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'connectivity-'));
+    mock = new MockHiseServer(createMockProject(dir));
+    const baseUrl = await mock.start();
+    port = Number(new URL(baseUrl).port);
+
+    client = await connectMcpServer({ HISE_API_URL: baseUrl, HISE_MONITOR_INTERVAL: '500' });
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => listChanged());
+  });
+
+  after(async () => {
+    await client?.close();
+    await mock?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should list runtime tools while HISE is reachable', async () => {
+    assert.ok(await runtimeToolCount() > 0);
+  });
+
+  it('should drop runtime tools and notify when HISE goes away', async () => {
+    const changed = nextListChange();
+    await mock.stop();
+    await changed;
+
+    assert.strictEqual(await runtimeToolCount(), 0);
+  });
+
+  it('should bring runtime tools back when HISE restarts', async () => {
+    const changed = nextListChange();
+    await mock.start(port);
+    await changed;
+
+    assert.ok(await runtimeToolCount() > 0);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MockHiseServer } from '../mocks/mock-hise-server.ts';
+import { callTool, connectMcpServer } from '../mocks/mcp-session.ts';
+import { createMockProject } from '../fixtures/mock-project.ts';
+import type { HiseInstanceInfo, HiseStatusResponse, ServerStatus } from '../../src/types.ts';
+
+describe('multiple HISE instances', () => {
+  let dir: string;
+  let stable: MockHiseServer;
+  let develop: MockHiseServer;
+  let client: Client;
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'instances-'));
+    stable = new MockHiseServer(createMockProject(dir));
+
+    const developProject = createMockProject(dir);
+    developProject.project.name = 'DevelopProject';
+    develop = new MockHiseServer(developProject);
+
+    const stableUrl = await stable.start();
+    const developUrl = await develop.start();
+    client = await connectMcpServer({ HISE_INSTANCES: `stable=${stableUrl},develop=${developUrl},offline=http://127.0.0.1:1` });
+  });
+
+  after(async () => {
+    await client?.close();
+    await stable?.stop();
+    await develop?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('hise_runtime_list_instances reports project and version per instance', async () => {
+    const { json } = await callTool<{ instances: HiseInstanceInfo[] }>(client, 'hise_runtime_list_instances');
+    const [first, second, third] = json.instances;
+
+    assert.deepStrictEqual([first.name, first.isDefault, first.project, first.version], ['stable', true, 'MockProject', '4.1.0']);
+    assert.deepStrictEqual([second.name, second.isDefault, second.project], ['develop', false, 'DevelopProject']);
+    assert.strictEqual(third.available, false);
+    assert.ok(third.error);
+  });
+
+  it('should route tool calls to the named instance', async () => {
+    const { json } = await callTool<HiseStatusResponse>(client, 'hise_runtime_status', { instance: 'develop' });
+    const defaultStatus = await callTool<HiseStatusResponse>(client, 'hise_runtime_status');
+
+    assert.strictEqual(json.project.name, 'DevelopProject');
+    assert.strictEqual(defaultStatus.json.project.name, 'MockProject');
+  });
+
+  it('should keep script writes on their own instance', async () => {
+    await callTool(client, 'hise_runtime_edit_script', {
+      instance: 'develop',
+      moduleId: 'Interface',
+      callback: 'onInit',
+      oldString: 'Content.makeFrontInterface(600, 400);',
+      newString: 'Content.makeFrontInterface(800, 500);',
+    });
+
+    assert.ok(develop.getProcessor('Interface')!.callbacks.onInit.includes('800, 500'));
+    assert.ok(stable.getProcessor('Interface')!.callbacks.onInit.includes('600, 400'));
+  });
+
+  it('server_status reports on the named instance', async () => {
+    const { json } = await callTool<ServerStatus>(client, 'server_status', { instance: 'develop' });
+    const offline = await callTool<ServerStatus>(client, 'server_status', { instance: 'offline' });
+
+    assert.deepStrictEqual([json.hiseRuntime.instance, json.hiseRuntime.project], ['develop', 'DevelopProject']);
+    assert.deepStrictEqual([offline.json.hiseRuntime.instance, offline.json.hiseRuntime.available], ['offline', false]);
+  });
+
+  it('style_selected_component reads the selection of the named instance', async () => {
+    const { messages } = await client.getPrompt({ name: 'style_selected_component', arguments: { instance: 'develop' } });
+    const text = messages[0].content.type === 'text' ? messages[0].content.text : '';
+
+    assert.ok(text.includes('pass `instance: "develop"`'), text);
+    assert.ok(develop.requestsTo('/api/get_selected_components').length > 0);
+  });
+
+  it('should reject unknown instances', async () => {
+    const result = await callTool(client, 'hise_runtime_status', { instance: 'nightly' });
+
+    assert.strictEqual(result.isError, true);
+    assert.ok(result.text.includes('Configured instances: stable, develop, offline'));
+  });
+});
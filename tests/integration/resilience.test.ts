@@ -0,0 +1,68 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MockHiseServer } from '../mocks/mock-hise-server.ts';
+import { callTool, connectMcpServer } from '../mocks/mcp-session.ts';
+import { createMockProject } from '../fixtures/mock-project.ts';
+
+describe('retries and circuit breaker', () => {
+  let dir: string;
+  let mock: MockHiseServer;
+  let port: number;
+  let client: Client;
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'resilience-'));
+    mock = new MockHiseServer(createMockProject(dir));
+    const baseUrl = await mock.start();
+    port = Number(new URL(baseUrl).port);
+
+    client = await connectMcpServer({ HISE_API_URL: baseUrl, HISE_RETRY_ATTEMPTS: '1', HISE_CIRCUIT_COOLDOWN: '500' });
+  });
+
+  after(async () => {
+    await client?.close();
+    await mock?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  it('should retry GET requests after a dropped connection', async () => {
+    mock.dropNext('/api/get_script');
+
+    const result = await callTool(client, 'hise_runtime_get_script', { moduleId: 'Interface', callback: 'onInit' });
+    assert.strictEqual(result.isError, false);
+    assert.strictEqual(mock.requestsTo('/api/get_script').length, 2);
+  });
+
+  it('should not repeat POST requests', async () => {
+    mock.dropNext('/api/recompile');
+
+    const result = await callTool(client, 'hise_runtime_recompile', { moduleId: 'Interface' });
+    assert.strictEqual(result.isError, true);
+    assert.strictEqual(mock.requestsTo('/api/recompile').length, 1);
+  });
+
+  it('should short-circuit while HISE keeps failing and recover after the cooldown', async () => {
+    await mock.stop();
+    for (let i = 0; i < 3; i++) {
+      await callTool(client, 'hise_runtime_get_selected_components');
+    }
+
+    const blocked = await callTool(client, 'hise_runtime_get_selected_components');
+    assert.strictEqual(blocked.isError, true);
+    assert.ok(blocked.text.includes('is not responding'), blocked.text);
+
+    await mock.start(port);
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    const recovered = await callTool(client, 'hise_runtime_get_selected_components');
+    assert.strictEqual(recovered.isError, false);
+  });
+});
@@ -0,0 +1,608 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MockHiseServer } from '../mocks/mock-hise-server.ts';
+import { callTool, connectMcpServer, type ToolResult } from '../mocks/mcp-session.ts';
+import { INTERFACE_ON_INIT, createMockProject } from '../fixtures/mock-project.ts';
+import type {
+  ConsoleQueryResult,
+  EditExternalFileResult,
+  ExternalFileContent,
+  FindDefinitionResult,
+  FindReferencesResult,
+  HiseCompileResponse,
+  HiseComponentHierarchy,
+  HiseGetComponentPropertiesResponse,
+  HiseGetComponentValueResponse,
+  HiseGetSelectedComponentsResponse,
+  HiseListComponentsResponse,
+  HiseScreenshotResponse,
+  HiseScriptResponse,
+  HiseSetComponentPropertiesResponse,
+  HiseSetComponentValueResponse,
+  HiseStatusResponse,
+  LAFRuntimeResult,
+  ProcessorOutline,
+  RenameSymbolResult,
+  ScriptHistoryResult,
+  ScriptPreviewResult,
+  ScriptRangeResult,
+  SearchScriptsResult,
+} from '../../src/types.ts';
+
+const HELPERS = 'namespace Helpers\n{\n\tconst var VERSION = 1;\n}\n';
+
+describe('runtime tools against mock HISE', () => {
+  let mock: MockHiseServer;
+  let client: Client;
+  let scriptsFolder: string;
+
+  function call<T = unknown>(name: string, args: Record<string, unknown> = {}): Promise<ToolResult<T>> {
+    return callTool<T>(client, name, args);
+  }
+
+  before(async () => {
+    scriptsFolder = mkdtempSync(join(tmpdir(), 'mock-hise-scripts-'));
+    writeFileSync(join(scriptsFolder, 'Helpers.js'), HELPERS);
+
+    mock = new MockHiseServer(createMockProject(scriptsFolder));
+    const baseUrl = await mock.start();
+
+    client = await connectMcpServer({ HISE_API_URL: baseUrl });
+  });
+
+  after(async () => {
+    await client?.close();
+    await mock?.stop();
+    rmSync(scriptsFolder, { recursive: true, force: true });
+  });
+
+  // Each test starts from the fixture project, whatever the previous one wrote
+  beforeEach(() => {
+    mock.reset();
+    mock.restoreState();
+    writeFileSync(join(scriptsFolder, 'Helpers.js'), HELPERS);
+  });
+
+  it('should list all runtime tools in local mode', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map(t => t.name);
+
+    for (const name of ['hise_runtime_status', 'hise_runtime_edit_script', 'hise_runtime_get_console']) {
+      assert.ok(names.includes(name), `${name} missing`);
+    }
+  });
+
+  describe('scripts', () => {
+    it('hise_runtime_status returns project and processors', async () => {
+      const { json } = await call<HiseStatusResponse>('hise_runtime_status');
+
+      assert.strictEqual(json.project.name, 'MockProject');
+      assert.strictEqual(json.scriptProcessors[0].moduleId, 'Interface');
+    });
+
+    it('hise_runtime_get_script returns callbacks with hashes', async () => {
+      const { json } = await call<HiseScriptResponse>('hise_runtime_get_script', { moduleId: 'Interface', callback: 'onInit' });
+
+      assert.strictEqual(json.callbacks.onInit, INTERFACE_ON_INIT);
+      assert.match(json.hashes!.onInit, /^[0-9a-f]{16}$/);
+    });
+
+    it('hise_runtime_get_script reports unknown modules', async () => {
+      const { json } = await call<HiseScriptResponse>('hise_runtime_get_script', { moduleId: 'Missing' });
+
+      assert.strictEqual(json.success, false);
+    });
+
+    it('hise_runtime_set_script previews with dryRun without writing', async () => {
+      const { json } = await call<ScriptPreviewResult>('hise_runtime_set_script', {
+        moduleId: 'Interface',
+        callbacks: { onNoteOn: 'function onNoteOn()\n{\n\tConsole.print(1);\n}' },
+        dryRun: true,
+      });
+
+      assert.strictEqual(json.dryRun, true);
+      assert.ok(json.diff.includes('+\tConsole.print(1);'));
+      assert.strictEqual(mock.requestsTo('/api/set_script').length, 0);
+    });
+
+    it('hise_runtime_set_script writes small callbacks', async () => {
+      const script = 'function onNoteOn()\n{\n\tConsole.print(Message.getNoteNumber());\n}';
+      const { json } = await call<HiseCompileResponse>('hise_runtime_set_script', { moduleId: 'Interface', callbacks: { onNoteOn: script } });
+
+      assert.strictEqual(json.success, true);
+      assert.deepStrictEqual(json.updatedCallbacks, ['onNoteOn']);
+      assert.strictEqual(mock.getProcessor('Interface')!.callbacks.onNoteOn, script);
+    });
+
+    it('hise_runtime_edit_script replaces a string', async () => {
+      const { json } = await call<HiseCompileResponse>('hise_runtime_edit_script', {
+        moduleId: 'Interface',
+        callback: 'onInit',
+        oldString: 'Content.makeFrontInterface(600, 400);',
+        newString: 'Content.makeFrontInterface(800, 500);',
+      });
+
+      assert.strictEqual(json.success, true);
+      assert.deepStrictEqual(json.matchStrategies, ['exact']);
+      assert.ok(mock.getProcessor('Interface')!.callbacks.onInit.startsWith('Content.makeFrontInterface(800, 500);'));
+    });
+
+    it('hise_runtime_edit_script fails without sending anything when oldString is missing', async () => {
+      const result = await call('hise_runtime_edit_script', {
+        moduleId: 'Interface',
+        callback: 'onInit',
+        oldString: 'does not exist',
+        newString: 'x',
+      });
+
+      assert.strictEqual(result.isError, true);
+      assert.ok(result.text.includes('No changes were sent to HISE'));
+      assert.strictEqual(mock.requestsTo('/api/set_script').length, 0);
+    });
+
+    it('hise_runtime_edit_script rejects a stale expectedHash', async () => {
+      const { json } = await call<HiseScriptResponse>('hise_runtime_get_script', { moduleId: 'Interface', callback: 'onNoteOn' });
+      mock.getProcessor('Interface')!.callbacks.onNoteOn = 'function onNoteOn()\n{\n\t// changed in HISE\n}';
+
+      const result = await call('hise_runtime_edit_script', {
+        moduleId: 'Interface',
+        callback: 'onNoteOn',
+        oldString: 'onNoteOn',
+        newString: 'onNoteOn',
+        expectedHash: json.hashes!.onNoteOn,
+      });
+
+      assert.strictEqual(result.isError, true);
+      assert.ok(result.text.includes('was modified in HISE'));
+    });
+
+    it('hise_runtime_recompile returns errors with code context, suggestions and fixes', async () => {
+      mock.failCompileWhen(/g\.fillRect\(0, 0/, 'argument amount mismatch: 4. Expected: 1');
+
+      const { json } = await call<HiseCompileResponse & { _hint?: string }>('hise_runtime_recompile', { moduleId: 'Interface' });
+      const error = json.errors[0];
+
+      assert.strictEqual(json.success, false);
+      assert.strictEqual(error.codeContext!.line, 8);
+      assert.ok(error.suggestions![0].includes('Graphics methods expect arrays'));
+      assert.deepStrictEqual(error.fixes![0].newString, '\tg.fillRect([0, 0, 10, 10]);');
+      assert.ok(json._hint);
+
+      // The proposed fix is accepted by edit_script as-is
+      const fixed = await call<HiseCompileResponse>('hise_runtime_edit_script', { moduleId: 'Interface', edits: error.fixes });
+      assert.strictEqual(fixed.json.success, true);
+      assert.deepStrictEqual(fixed.json.errors, []);
+    });
+
+    it('hise_runtime_list_script_history and hise_runtime_restore_script undo a write', async () => {
+      const before = mock.getProcessor('Interface')!.callbacks.onInit;
+      await call('hise_runtime_edit_script', {
+        moduleId: 'Interface',
+        callback: 'onInit',
+        oldString: 'const var Knob1',
+        newString: 'const var GainKnob',
+      });
+
+      const history = await call<ScriptHistoryResult>('hise_runtime_list_script_history', { moduleId: 'Interface', callback: 'onInit' });
+      assert.ok(history.json.entries.length >= 1);
+
+      const restored = await call<HiseCompileResponse>('hise_runtime_restore_script', { moduleId: 'Interface', callback: 'onInit' });
+      assert.strictEqual(restored.json.success, true);
+      assert.strictEqual(mock.getProcessor('Interface')!.callbacks.onInit, before);
+    });
+
+    it('hise_runtime_set_script snapshots the live script and only after a write', async () => {
+      const processor = mock.getProcessor('Interface')!;
+      const original = processor.callbacks.onNoteOn;
+      const historyLength = async () =>
+        (await call<ScriptHistoryResult>('hise_runtime_list_script_history', { moduleId: 'Interface', callback: 'onNoteOn' })).json.entries.length;
+
+      // Cached here, then edited in HISE behind the server's back
+      await call('hise_runtime_get_script', { moduleId: 'Interface', callback: 'onNoteOn' });
+      const editedInHise = 'function onNoteOn()\n{\n\tConsole.print(1);\n}';
+      processor.callbacks.onNoteOn = editedInHise;
+
+      const count = await historyLength();
+      mock.dropNext('/api/set_script');
+      const failed = await call('hise_runtime_set_script', { moduleId: 'Interface', callbacks: { onNoteOn: original } });
+      assert.strictEqual(failed.isError, true);
+      assert.strictEqual(await historyLength(), count);
+
+      await call('hise_runtime_set_script', { moduleId: 'Interface', callbacks: { onNoteOn: original } });
+      assert.strictEqual(await historyLength(), count + 1);
+
+      const restored = await call<HiseCompileResponse>('hise_runtime_restore_script', { moduleId: 'Interface', callback: 'onNoteOn' });
+      assert.strictEqual(restored.json.success, true);
+      assert.strictEqual(processor.callbacks.onNoteOn, editedInHise);
+    });
+
+    it('should read each callback once per write and snapshot what was checked', async () => {
+      const { json } = await call<HiseScriptResponse>('hise_runtime_get_script', { moduleId: 'Interface', callback: 'onNoteOn' });
+      const before = mock.getProcessor('Interface')!.callbacks.onNoteOn;
+      mock.reset();
+
+      const edited = await call<HiseCompileResponse>('hise_runtime_edit_script', {
+        moduleId: 'Interface',
+        callback: 'onNoteOn',
+        oldString: '{\n\t\n}',
+        newString: '{\n\tConsole.print(1);\n}',
+        expectedHash: json.hashes!.onNoteOn,
+      });
+      assert.strictEqual(mock.requestsTo('/api/get_script').length, 1);
+
+      mock.reset();
+      await call('hise_runtime_set_script', { moduleId: 'Interface', callbacks: { onNoteOn: before } });
+      assert.strictEqual(mock.requestsTo('/api/get_script').length, 1);
+
+      const history = await call<ScriptHistoryResult>('hise_runtime_list_script_history', { moduleId: 'Interface', callback: 'onNoteOn' });
+      assert.deepStrictEqual(history.json.entries.map(e => e.hash).slice(0, 2), [
+        edited.json.hashes!.onNoteOn,
+        json.hashes!.onNoteOn,
+      ]);
+    });
+  });
+
+  describe('external files', () => {
+    it('hise_runtime_get_external_file reads a file and its owners', async () => {
+      const { json } = await call<ExternalFileContent>('hise_runtime_get_external_file', { file: 'Helpers.js' });
+
+      assert.ok(json.content.includes('namespace Helpers'));
+      assert.deepStrictEqual(json.owners, ['Interface']);
+    });
+
+    it('hise_runtime_get_external_file rejects paths outside the scripts folder', async () => {
+      const result = await call('hise_runtime_get_external_file', { file: '../secret.txt' });
+
+      assert.strictEqual(result.isError, true);
+      assert.ok(result.text.includes('outside'));
+    });
+
+    it('hise_runtime_edit_external_file writes the file and recompiles the owners', async () => {
+      const { json } = await call<EditExternalFileResult>('hise_runtime_edit_external_file', {
+        file: 'Helpers.js',
+        oldString: 'VERSION = 1',
+        newString: 'VERSION = 2',
+      });
+
+      assert.strictEqual(json.success, true);
+      assert.ok(readFileSync(join(scriptsFolder, 'Helpers.js'), 'utf8').includes('VERSION = 2'));
+      assert.deepStrictEqual(mock.requestsTo('/api/recompile').map(r => r.body?.moduleId), ['Interface']);
+    });
+  });
+
+  describe('navigation', () => {
+    it('hise_runtime_search_scripts finds hits in callbacks with context', async () => {
+      const { json } = await call<SearchScriptsResult>('hise_runtime_search_scripts', { query: 'panel1', contextLines: 1 });
+
+      assert.deepStrictEqual(json.hits.map(h => [h.moduleId, h.callback, h.line, h.column]), [
+        ['Interface', 'onInit', 4, 11],
+        ['Interface', 'onInit', 6, 1],
+      ]);
+      assert.strictEqual(json.hits[0].code, '3: const var Knob1 = Content.getComponent("Knob1");\n4: const var Panel1 = Content.getComponent("Panel1");\n5: ');
+      assert.deepStrictEqual(json.searched, { callbacks: 2, files: 1 });
+    });
+
+    it('hise_runtime_search_scripts searches include files with a regex', async () => {
+      const { json } = await call<SearchScriptsResult>('hise_runtime_search_scripts', { query: 'VERSION = \\d', regex: true });
+
+      assert.strictEqual(json.totalHits, 1);
+      assert.strictEqual(json.hits[0].file, 'Helpers.js');
+      assert.strictEqual(json.hits[0].line, 3);
+    });
+
+    it('hise_runtime_search_scripts truncates at maxResults', async () => {
+      const { json } = await call<SearchScriptsResult>('hise_runtime_search_scripts', { query: 'Content', maxResults: 1 });
+
+      assert.strictEqual(json.hits.length, 1);
+      assert.strictEqual(json.truncated, true);
+      assert.ok(json.totalHits > 1);
+    });
+
+    it('hise_runtime_get_outline lists declarations per callback and include file', async () => {
+      const { json } = await call<ProcessorOutline>('hise_runtime_get_outline', { moduleId: 'Interface' });
+
+      assert.deepStrictEqual(json.callbacks.onInit.symbols.map(s => [s.kind, s.name, s.startLine]), [
+        ['component', 'Knob1', 3],
+        ['component', 'Panel1', 4],
+      ]);
+      assert.deepStrictEqual(json.externalFiles['Helpers.js'].symbols, [
+        { kind: 'namespace', name: 'Helpers', startLine: 1, endLine: 4 },
+        { kind: 'const var', name: 'VERSION', startLine: 3, endLine: 3, namespace: 'Helpers' },
+      ]);
+      // Callbacks other than onInit are wrapped in their function
+      assert.deepStrictEqual(json.callbacks.onNoteOn.symbols.map(s => [s.kind, s.name]), [['function', 'onNoteOn']]);
+    });
+
+    it('hise_runtime_get_script returns a symbol from the cache after get_outline', async () => {
+      const outline = await call<ProcessorOutline>('hise_runtime_get_outline', { moduleId: 'Interface', includeExternalFiles: false });
+      const fetched = mock.requestsTo('/api/get_script').length;
+
+      const { json } = await call<ScriptRangeResult>('hise_runtime_get_script', {
+        moduleId: 'Interface',
+        callback: 'onInit',
+        symbol: 'Panel1',
+        hash: outline.json.hashes.onInit,
+      });
+
+      assert.strictEqual(json.fromCache, true);
+      assert.strictEqual(json.code, '4: const var Panel1 = Content.getComponent("Panel1");');
+      assert.strictEqual(json.symbol!.componentId, 'Panel1');
+      assert.strictEqual(mock.requestsTo('/api/get_script').length, fetched);
+    });
+
+    it('hise_runtime_get_script returns a line range', async () => {
+      const { json } = await call<ScriptRangeResult>('hise_runtime_get_script', { moduleId: 'Interface', callback: 'onInit', startLine: 6, endLine: 100, hash: 'stale' });
+
+      assert.strictEqual(json.fromCache, false);
+      assert.strictEqual(json.startLine, 6);
+      assert.strictEqual(json.endLine, json.lineCount);
+      assert.ok(json.code.startsWith('6: Panel1.setPaintRoutine(function(g)'));
+    });
+
+    it('hise_runtime_get_script reads symbols and ranges of include files', async () => {
+      const bySymbol = await call<ScriptRangeResult>('hise_runtime_get_script', { moduleId: 'Interface', symbol: 'Helpers.VERSION' });
+      assert.strictEqual(bySymbol.json.file, 'Helpers.js');
+      assert.strictEqual(bySymbol.json.code, '3: \tconst var VERSION = 1;');
+
+      const byRange = await call<ScriptRangeResult>('hise_runtime_get_script', { moduleId: 'Interface', file: 'Helpers.js', startLine: 1, endLine: 2 });
+      assert.strictEqual(byRange.json.callback, undefined);
+      assert.strictEqual(byRange.json.code, '1: namespace Helpers\n2: {');
+    });
+
+    it('hise_runtime_get_script rejects invalid ranges and unknown symbols', async () => {
+      const noCallback = await call('hise_runtime_get_script', { moduleId: 'Interface', startLine: 1 });
+      assert.ok(noCallback.text.includes('callback or file is required'));
+
+      const pastEnd = await call('hise_runtime_get_script', { moduleId: 'Interface', callback: 'onInit', startLine: 500 });
+      assert.ok(pastEnd.text.includes('Invalid line range'));
+
+      const fraction = await call('hise_runtime_get_script', { moduleId: 'Interface', callback: 'onInit', startLine: 1.5 });
+      assert.ok(fraction.text.includes('startLine must be a whole number'));
+
+      const unknown = await call('hise_runtime_get_script', { moduleId: 'Interface', symbol: 'Missing' });
+      assert.strictEqual(unknown.isError, true);
+      assert.ok(unknown.text.includes('use get_outline'));
+    });
+
+    it('hise_runtime_find_definition returns callstack-style locations', async () => {
+      const { json } = await call<FindDefinitionResult>('hise_runtime_find_definition', { moduleId: 'Interface', name: 'Knob1', contextLines: 0 });
+
+      assert.strictEqual(json.definitions.length, 1);
+      assert.strictEqual(json.definitions[0].location, 'onInit() at Interface.js:3:11');
+      assert.strictEqual(json.definitions[0].code, '3: const var Knob1 = Content.getComponent("Knob1");');
+      assert.strictEqual(json.definitions[0].symbol.kind, 'component');
+    });
+
+    it('hise_runtime_find_references finds namespace members across callbacks and include files', async () => {
+      mock.getProcessor('Interface')!.callbacks.onNoteOn =
+        'function onNoteOn()\n{\n\tConsole.print(Helpers.VERSION); // Helpers.VERSION\n}';
+
+      const { json } = await call<FindReferencesResult>('hise_runtime_find_references', { moduleId: 'Interface', name: 'VERSION' });
+
+      assert.strictEqual(json.qualifiedName, 'Helpers.VERSION');
+      assert.deepStrictEqual(json.references.map(r => [r.location, r.isDefinition]), [
+        ['onNoteOn() at Interface.js:3:24', false],
+        ['Helpers.js:3:12', true],
+      ]);
+    });
+
+    it('hise_runtime_rename_symbol previews and applies a rename with one compile', async () => {
+      mock.getProcessor('Interface')!.callbacks.onNoteOn =
+        'function onNoteOn()\n{\n\tConsole.print(Helpers.VERSION + VERSION_2); // Helpers.VERSION\n}';
+
+      const preview = await call<RenameSymbolResult>('hise_runtime_rename_symbol', { moduleId: 'Interface', name: 'VERSION', newName: 'BUILD', dryRun: true });
+      assert.strictEqual(preview.json.qualifiedName, 'Helpers.VERSION');
+      assert.deepStrictEqual(preview.json.changes, [
+        { callback: 'onNoteOn', occurrences: 1 },
+        { file: 'Helpers.js', occurrences: 1 },
+      ]);
+      assert.ok(preview.json.diff.includes('+\tConsole.print(Helpers.BUILD + VERSION_2); // Helpers.VERSION'));
+      assert.strictEqual(mock.requestsTo('/api/set_script').length, 0);
+      assert.ok(readFileSync(join(scriptsFolder, 'Helpers.js'), 'utf8').includes('const var VERSION'));
+
+      const { json } = await call<RenameSymbolResult>('hise_runtime_rename_symbol', { moduleId: 'Interface', name: 'Helpers.VERSION', newName: 'BUILD' });
+      assert.strictEqual(json.success, true);
+      assert.deepStrictEqual(mock.requestsTo('/api/set_script').map(r => Object.keys(r.body!.callbacks as object)), [['onNoteOn']]);
+      assert.strictEqual(mock.requestsTo('/api/recompile').length, 0);
+      assert.ok(mock.getProcessor('Interface')!.callbacks.onNoteOn.includes('Helpers.BUILD + VERSION_2'));
+      assert.ok(readFileSync(join(scriptsFolder, 'Helpers.js'), 'utf8').includes('const var BUILD'));
+    });
+
+    it('hise_runtime_rename_symbol restores include files when the callbacks fail to write', async () => {
+      mock.getProcessor('Interface')!.callbacks.onNoteOn = 'function onNoteOn()\n{\n\tConsole.print(Helpers.VERSION);\n}';
+      mock.dropNext('/api/set_script');
+
+      const result = await call('hise_runtime_rename_symbol', { moduleId: 'Interface', name: 'Helpers.VERSION', newName: 'BUILD' });
+      assert.strictEqual(result.isError, true);
+      assert.strictEqual(readFileSync(join(scriptsFolder, 'Helpers.js'), 'utf8'), HELPERS);
+    });
+
+    it('hise_runtime_rename_symbol refuses names that are taken or not declared', async () => {
+      const taken = await call('hise_runtime_rename_symbol', { moduleId: 'Interface', name: 'Knob1', newName: 'Panel1' });
+      assert.ok(taken.text.includes('Panel1 is already used'));
+
+      const undeclared = await call('hise_runtime_rename_symbol', { moduleId: 'Interface', name: 'Console', newName: 'Log' });
+      assert.ok(undeclared.text.includes('only symbols declared there can be renamed'));
+      assert.strictEqual(mock.requestsTo('/api/set_script').length, 0);
+    });
+
+    it('should not read include files linked from outside the scripts folder', async () => {
+      const outside = mkdtempSync(join(tmpdir(), 'mock-hise-outside-'));
+      writeFileSync(join(outside, 'Secret.js'), 'const var SECRET = 1;\n');
+      symlinkSync(join(outside, 'Secret.js'), join(scriptsFolder, 'Secret.js'));
+      mock.getProcessor('Interface')!.externalFiles!.push({ name: 'Secret.js', path: join(scriptsFolder, 'Secret.js') });
+      try {
+        const search = await call<SearchScriptsResult>('hise_runtime_search_scripts', { query: 'SECRET' });
+        assert.deepStrictEqual([search.json.totalHits, search.json.searched.files], [0, 1]);
+
+        const outline = await call<ProcessorOutline>('hise_runtime_get_outline', { moduleId: 'Interface' });
+        assert.deepStrictEqual(Object.keys(outline.json.externalFiles), ['Helpers.js']);
+      } finally {
+        rmSync(join(scriptsFolder, 'Secret.js'));
+        rmSync(outside, { recursive: true, force: true });
+      }
+    });
+
+    it('hise_runtime_search_scripts rejects invalid regexes', async () => {
+      const result = await call('hise_runtime_search_scripts', { query: '(unclosed', regex: true });
+
+      assert.strictEqual(result.isError, true);
+      assert.ok(result.text.includes('Invalid regex'));
+    });
+  });
+
+  describe('console', () => {
+    it('hise_runtime_get_console returns captured output', async () => {
+      mock.queueLog('Interface: hello from onInit');
+      await call('hise_runtime_recompile', { moduleId: 'Interface' });
+
+      const { json } = await call<ConsoleQueryResult>('hise_runtime_get_console', { module: 'Interface', pattern: 'hello' });
+      assert.strictEqual(json.entries.length, 1);
+      assert.strictEqual(json.entries[0].message, 'hello from onInit');
+    });
+  });
+
+  describe('progress', () => {
+    async function callWithProgress(name: string, args: Record<string, unknown>): Promise<string[]> {
+      const messages: string[] = [];
+      await client.callTool({ name, arguments: args }, undefined, {
+        onprogress: progress => { messages.push(progress.message!); },
+      });
+      return messages;
+    }
+
+    it('hise_runtime_recompile reports compile and enrichment stages', async () => {
+      mock.failCompileWhen(/Content\.makeFrontInterface/, 'argument amount mismatch: 2. Expected: 3');
+
+      const messages = await callWithProgress('hise_runtime_recompile', { moduleId: 'Interface' });
+      assert.deepStrictEqual(messages.slice(0, 2), ['Compiling Interface', 'Enriching 1 error(s) with code context']);
+    });
+
+    it('hise_runtime_edit_external_file reports each recompiled owner', async () => {
+      const messages = await callWithProgress('hise_runtime_edit_external_file', {
+        file: 'Helpers.js',
+        oldString: 'namespace Helpers',
+        newString: 'namespace Helpers',
+      });
+
+      assert.ok(messages.includes('Recompiling owner 1/1: Interface'), messages.join(', '));
+    });
+
+    it('hise_runtime_search_scripts sends counted steps as progress/total', async () => {
+      const updates: { progress: number; total?: number; message?: string }[] = [];
+      await client.callTool({ name: 'hise_runtime_search_scripts', arguments: { query: 'Knob1' } }, undefined, {
+        onprogress: progress => { updates.push(progress); },
+      });
+
+      const searching = updates.find(u => u.message === 'Searching Interface (1/1)');
+      assert.deepStrictEqual(searching && [searching.progress, searching.total], [1, 1]);
+      assert.ok(updates.every((u, i) => i === 0 || u.progress > updates[i - 1].progress));
+    });
+  });
+
+  describe('components', () => {
+    it('hise_runtime_screenshot returns image data', async () => {
+      const { json } = await call<HiseScreenshotResponse>('hise_runtime_screenshot', { moduleId: 'Interface', scale: 0.5 });
+
+      assert.strictEqual(json.success, true);
+      assert.strictEqual(json.scale, 0.5);
+      assert.ok(json.imageData);
+    });
+
+    it('hise_runtime_list_components returns a flat list or hierarchy', async () => {
+      const flat = await call<HiseListComponentsResponse>('hise_runtime_list_components', { moduleId: 'Interface' });
+      const tree = await call<HiseListComponentsResponse & { components: HiseComponentHierarchy[] }>('hise_runtime_list_components', { moduleId: 'Interface', hierarchy: true });
+
+      assert.strictEqual(flat.json.components.length, 3);
+      const panel = tree.json.components.find(c => c.id === 'Panel1');
+      assert.strictEqual(panel!.childComponents[0].id, 'Button1');
+    });
+
+    it('hise_runtime_get_component_properties omits defaults in compact mode', async () => {
+      const { json } = await call<HiseGetComponentPropertiesResponse>('hise_runtime_get_component_properties', { moduleId: 'Interface', id: 'Knob1' });
+      const ids = json.properties!.map(p => p.id);
+
+      assert.ok(ids.includes('text'));
+      assert.ok(!ids.includes('width'));
+    });
+
+    it('hise_runtime_set_component_properties rejects locked properties unless forced', async () => {
+      mock.lockProperty('Knob1', 'x');
+      const changes = [{ id: 'Knob1', properties: { x: 50 } }];
+
+      const rejected = await call<HiseSetComponentPropertiesResponse>('hise_runtime_set_component_properties', { moduleId: 'Interface', changes });
+      assert.strictEqual(rejected.json.success, false);
+      assert.deepStrictEqual(rejected.json.locked, [{ id: 'Knob1', property: 'x' }]);
+
+      const forced = await call<HiseSetComponentPropertiesResponse>('hise_runtime_set_component_properties', { moduleId: 'Interface', changes, force: true });
+      assert.strictEqual(forced.json.success, true);
+      assert.strictEqual(forced.json.recompileRequired, true);
+    });
+
+    it('hise_runtime_get_component_value and hise_runtime_set_component_value round-trip', async () => {
+      await call('hise_runtime_set_component_value', { moduleId: 'Interface', id: 'Knob1', value: 0.75 });
+      const { json } = await call<HiseGetComponentValueResponse>('hise_runtime_get_component_value', { moduleId: 'Interface', id: 'Knob1' });
+
+      assert.strictEqual(json.value, 0.75);
+    });
+
+    it('hise_runtime_set_component_value validates the range', async () => {
+      const { json } = await call<HiseSetComponentValueResponse>('hise_runtime_set_component_value', {
+        moduleId: 'Interface',
+        id: 'Knob1',
+        value: 5,
+        validateRange: true,
+      });
+
+      assert.strictEqual(json.success, false);
+    });
+
+    it('hise_runtime_get_selected_components returns the selection', async () => {
+      const { json } = await call<HiseGetSelectedComponentsResponse>('hise_runtime_get_selected_components', {});
+
+      assert.strictEqual(json.selectionCount, 1);
+      assert.strictEqual(json.components[0].id, 'Knob1');
+    });
+
+    it('hise_runtime_get_laf_functions looks up functions for the component types', async () => {
+      const { json } = await call<LAFRuntimeResult>('hise_runtime_get_laf_functions', { componentIds: ['Knob1'] });
+
+      assert.deepStrictEqual(json.componentIds, ['Knob1']);
+      assert.ok(JSON.stringify(json.functions).includes('drawRotarySlider'));
+    });
+  });
+
+  describe('failures', () => {
+    it('should report a timeout when HISE is too slow', async () => {
+      mock.setDelay('/api/status', 3500);
+
+      const result = await call('hise_runtime_status');
+      assert.strictEqual(result.isError, true);
+      assert.ok(result.text.includes('timeout'));
+    });
+
+    it('should abort the HISE request when the tool call is cancelled', async () => {
+      mock.setDelay('/api/recompile', 3000);
+      const controller = new AbortController();
+
+      const pending = client.callTool(
+        { name: 'hise_runtime_recompile', arguments: { moduleId: 'Interface' } },
+        undefined,
+        { signal: controller.signal }
+      );
+      while (mock.requestsTo('/api/recompile').length === 0) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      controller.abort();
+
+      await assert.rejects(pending);
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      assert.strictEqual(mock.requestsTo('/api/recompile')[0].abandoned, true);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { existsSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { MockHiseServer } from '../mocks/mock-hise-server.ts';
+import { callTool, connectMcpServer } from '../mocks/mcp-session.ts';
+import { INTERFACE_ON_INIT, createMockProject } from '../fixtures/mock-project.ts';
+import type { ExportScriptsResult, ImportScriptsResult } from '../../src/types.ts';
+
+describe('script export and import', () => {
+  let scriptsFolder: string;
+  let exportFolder: string;
+  let mock: MockHiseServer;
+  let client: Client;
+
+  function editExport(file: string, from: string, to: string): void {
+    const path = join(exportFolder, file);
+    writeFileSync(path, readFileSync(path, 'utf8').replace(from, to));
+  }
+
+  before(async () => {
+    scriptsFolder = mkdtempSync(join(tmpdir(), 'export-scripts-'));
+    exportFolder = mkdtempSync(join(tmpdir(), 'export-target-'));
+    writeFileSync(join(scriptsFolder, 'Helpers.js'), 'namespace Helpers\n{\n\tconst var VERSION = 1;\n}\n');
+
+    mock = new MockHiseServer(createMockProject(scriptsFolder));
+    client = await connectMcpServer({ HISE_API_URL: await mock.start() });
+  });
+
+  after(async () => {
+    await client?.close();
+    await mock?.stop();
+    rmSync(scriptsFolder, { recursive: true, force: true });
+    rmSync(exportFolder, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+  });
+
+  it('hise_runtime_export_scripts writes callbacks, include files and a manifest', async () => {
+    const { json } = await callTool<ExportScriptsResult>(client, 'hise_runtime_export_scripts', { directory: exportFolder });
+
+    assert.deepStrictEqual(json.includes, ['Helpers.js']);
+    assert.strictEqual(readFileSync(join(exportFolder, 'Interface', 'onInit.js'), 'utf8'), INTERFACE_ON_INIT);
+    assert.ok(readFileSync(join(exportFolder, 'includes', 'Helpers.js'), 'utf8').includes('VERSION = 1'));
+    assert.ok(existsSync(join(exportFolder, 'hise-scripts.json')));
+  });
+
+  it('hise_runtime_import_scripts previews changed files with dryRun', async () => {
+    editExport('Interface/onInit.js', '600, 400', '800, 500');
+
+    const { json } = await callTool<ImportScriptsResult>(client, 'hise_runtime_import_scripts', { directory: exportFolder, dryRun: true });
+
+    assert.deepStrictEqual(json.changes, [{ target: 'Interface.onInit', action: 'apply' }]);
+    assert.ok(json.diff.includes('+Content.makeFrontInterface(800, 500);'));
+    assert.strictEqual(mock.requestsTo('/api/set_script').length, 0);
+  });
+
+  it('hise_runtime_import_scripts applies only the changed files', async () => {
+    editExport('includes/Helpers.js', 'VERSION = 1', 'VERSION = 2');
+
+    const { json } = await callTool<ImportScriptsResult>(client, 'hise_runtime_import_scripts', { directory: exportFolder });
+
+    assert.strictEqual(json.success, true);
+    assert.deepStrictEqual(mock.requestsTo('/api/set_script').map(r => Object.keys(r.body!.callbacks as object)), [['onInit']]);
+    assert.ok(mock.getProcessor('Interface')!.callbacks.onInit.includes('800, 500'));
+    assert.ok(readFileSync(join(scriptsFolder, 'Helpers.js'), 'utf8').includes('VERSION = 2'));
+    // set_script already compiled Interface, which includes Helpers.js
+    assert.strictEqual(mock.requestsTo('/api/recompile').length, 0);
+
+    const again = await callTool<ImportScriptsResult>(client, 'hise_runtime_import_scripts', { directory: exportFolder });
+    assert.deepStrictEqual(again.json.changes, []);
+  });
+
+  it('should restore include files when the callbacks fail to import', async () => {
+    editExport('includes/Helpers.js', 'VERSION = 2', 'VERSION = 3');
+    editExport('Interface/onNoteOn.js', '\t\n', '\tConsole.print(1);\n');
+    mock.dropNext('/api/set_script');
+
+    const result = await callTool(client, 'hise_runtime_import_scripts', { directory: exportFolder });
+
+    assert.strictEqual(result.isError, true);
+    assert.ok(readFileSync(join(scriptsFolder, 'Helpers.js'), 'utf8').includes('VERSION = 2'));
+    editExport('includes/Helpers.js', 'VERSION = 3', 'VERSION = 2');
+    editExport('Interface/onNoteOn.js', '\tConsole.print(1);\n', '\t\n');
+  });
+
+  it('should keep changes made only in HISE', async () => {
+    const processor = mock.getProcessor('Interface')!;
+    processor.callbacks.onInit = processor.callbacks.onInit.replace('800, 500', '1000, 600');
+
+    const { json } = await callTool<ImportScriptsResult>(client, 'hise_runtime_import_scripts', { directory: exportFolder });
+
+    assert.deepStrictEqual(json.changes, [{ target: 'Interface.onInit', action: 'changedInHise' }]);
+    assert.ok(processor.callbacks.onInit.includes('1000, 600'));
+  });
+
+  it('should refuse conflicting changes unless forced', async () => {
+    editExport('Interface/onInit.js', '800, 500', '640, 480');
+
+    const rejected = await callTool(client, 'hise_runtime_import_scripts', { directory: exportFolder });
+    assert.strictEqual(rejected.isError, true);
+    assert.ok(rejected.text.includes('Interface.onInit'));
+    assert.strictEqual(mock.requestsTo('/api/set_script').length, 0);
+
+    const preview = await callTool<ImportScriptsResult>(client, 'hise_runtime_import_scripts', { directory: exportFolder, dryRun: true });
+    assert.strictEqual(preview.json.success, false);
+
+    const forced = await callTool<ImportScriptsResult>(client, 'hise_runtime_import_scripts', { directory: exportFolder, force: true });
+    assert.strictEqual(forced.json.success, true);
+    assert.ok(mock.getProcessor('Interface')!.callbacks.onInit.includes('640, 480'));
+  });
+
+  it('should reject folders without an export', async () => {
+    const result = await callTool(client, 'hise_runtime_import_scripts', { directory: scriptsFolder });
+
+    assert.strictEqual(result.isError, true);
+    assert.ok(result.text.includes('No hise-scripts.json'));
+  });
+
+  it('hise_runtime_export_scripts refuses a non-empty folder that is not an export', async () => {
+    const result = await callTool(client, 'hise_runtime_export_scripts', { directory: scriptsFolder });
+
+    assert.strictEqual(result.isError, true);
+    assert.ok(result.text.includes('is not empty and has no hise-scripts.json'), result.text);
+    assert.ok(!existsSync(join(scriptsFolder, 'hise-scripts.json')));
+  });
+
+  it('hise_runtime_export_scripts skips include files linked from outside the scripts folder', async () => {
+    const outside = mkdtempSync(join(tmpdir(), 'export-outside-'));
+    const target = mkdtempSync(join(tmpdir(), 'export-linked-'));
+    writeFileSync(join(outside, 'Secret.js'), 'const var SECRET = 1;\n');
+    symlinkSync(join(outside, 'Secret.js'), join(scriptsFolder, 'Secret.js'));
+    const externalFiles = mock.getProcessor('Interface')!.externalFiles!;
+    externalFiles.push({ name: 'Secret.js', path: join(scriptsFolder, 'Secret.js') });
+    try {
+      const { json } = await callTool<ExportScriptsResult>(client, 'hise_runtime_export_scripts', { directory: target });
+
+      assert.deepStrictEqual(json.includes, ['Helpers.js']);
+      assert.ok(!existsSync(join(target, 'includes', 'Secret.js')));
+    } finally {
+      externalFiles.pop();
+      rmSync(join(scriptsFolder, 'Secret.js'));
+      rmSync(outside, { recursive: true, force: true });
+      rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  it('should record a partial import when a later processor fails to write', async () => {
+    const target = mkdtempSync(join(tmpdir(), 'export-partial-'));
+    mock.state.processors.push({ moduleId: 'Synth', callbacks: { onInit: 'const var gain = 1;' } });
+    try {
+      await callTool(client, 'hise_runtime_export_scripts', { directory: target });
+      writeFileSync(join(target, 'Interface', 'onNoteOn.js'), 'function onNoteOn()\n{\n\tConsole.print(1);\n}');
+      writeFileSync(join(target, 'Synth', 'onInit.js'), 'const var gain = 2;');
+      mock.dropNext('/api/set_script', 1, 1);
+
+      const { json } = await callTool<ImportScriptsResult>(client, 'hise_runtime_import_scripts', { directory: target });
+      assert.strictEqual(json.success, false);
+      assert.deepStrictEqual(json.notImported, ['Synth']);
+      assert.ok(json.error);
+      assert.ok(mock.getProcessor('Interface')!.callbacks.onNoteOn.includes('Console.print(1)'));
+
+      // The manifest has Interface's new hash, so only Synth is left
+      const again = await callTool<ImportScriptsResult>(client, 'hise_runtime_import_scripts', { directory: target });
+      assert.deepStrictEqual(again.json.changes, [{ target: 'Synth.onInit', action: 'apply' }]);
+      assert.strictEqual(mock.getProcessor('Synth')!.callbacks.onInit, 'const var gain = 2;');
+    } finally {
+      mock.state.processors.pop();
+      rmSync(target, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MockHiseServer } from '../mocks/mock-hise-server.ts';
+import { callTool, connectMcpServer } from '../mocks/mcp-session.ts';
+import { createMockProject } from '../fixtures/mock-project.ts';
+import type { HiseError } from '../../src/types.ts';
+
+interface WatchLog {
+  level: string;
+  data: { message: string; applied?: string[]; errors?: HiseError[] };
+}
+
+describe('script watch mode (HISE_WATCH_SCRIPTS)', () => {
+  let scriptsFolder: string;
+  let watchFolder: string;
+  let mock: MockHiseServer;
+  let client: Client;
+  let logs: WatchLog[] = [];
+
+  async function waitForLog(predicate: (log: WatchLog) => boolean, timeoutMs = 5000): Promise<WatchLog> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const log = logs.find(predicate);
+      if (log) return log;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    throw new Error(`No matching log message, got: ${JSON.stringify(logs)}`);
+  }
+
+  function saveOnInit(from: string, to: string): void {
+    const path = join(watchFolder, 'Interface', 'onInit.js');
+    writeFileSync(path, readFileSync(path, 'utf8').replace(from, to));
+  }
+
+  before(async () => {
+    scriptsFolder = mkdtempSync(join(tmpdir(), 'watch-scripts-'));
+    watchFolder = mkdtempSync(join(tmpdir(), 'watch-export-'));
+    writeFileSync(join(scriptsFolder, 'Helpers.js'), 'namespace Helpers\n{\n}\n');
+    mock = new MockHiseServer(createMockProject(scriptsFolder));
+    client = await connectMcpServer({ HISE_API_URL: await mock.start(), HISE_WATCH_SCRIPTS: watchFolder });
+    client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+      logs.push(notification.params as WatchLog);
+    });
+
+    await callTool(client, 'hise_runtime_export_scripts', { directory: watchFolder });
+    // Let the watcher see the exported files (nothing to apply)
+    await new Promise(resolve => setTimeout(resolve, 600));
+  });
+
+  after(async () => {
+    await client?.close();
+    await mock?.stop();
+    rmSync(scriptsFolder, { recursive: true, force: true });
+    rmSync(watchFolder, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    logs = [];
+  });
+
+  it('should ignore the files written by the export', () => {
+    assert.strictEqual(mock.requestsTo('/api/set_script').length, 0);
+  });
+
+  it('should compile a saved callback in HISE', async () => {
+    saveOnInit('600, 400', '800, 500');
+
+    const log = await waitForLog(l => l.level === 'info');
+
+    assert.deepStrictEqual(log.data.applied, ['Interface.onInit']);
+    assert.ok(mock.getProcessor('Interface')!.callbacks.onInit.includes('800, 500'));
+  });
+
+  it('should report compile errors with suggestions', async () => {
+    mock.failCompileWhen(/g\.fillRect\(0, 0/, 'argument amount mismatch: 4. Expected: 1');
+    saveOnInit('800, 500', '800, 500);\n// g.fillRect(0, 0, 10, 10');
+
+    const log = await waitForLog(l => l.level === 'error');
+
+    assert.ok(log.data.message.includes('argument amount mismatch'));
+    assert.ok(log.data.errors![0].suggestions![0].includes('Graphics methods expect arrays'));
+  });
+
+  it('should report conflicts without applying them', async () => {
+    const processor = mock.getProcessor('Interface')!;
+    processor.callbacks.onInit = processor.callbacks.onInit.replace('800, 500', '1000, 600');
+    saveOnInit('800, 500', '640, 480');
+
+    const log = await waitForLog(l => l.level === 'error');
+
+    assert.ok(log.data.message.includes('Changed both in HISE and in the export'));
+    assert.strictEqual(mock.requestsTo('/api/set_script').length, 0);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Helpers to drive the built MCP server (dist/index.js) over stdio
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+export const SERVER_PATH = join(import.meta.dirname, '..', '..', 'dist', 'index.js');
+
+export interface ToolResult<T = unknown> {
+  text: string;
+  isError: boolean;
+  json: T;  // Parsed output, typed by the caller (null for plain text)
+}
+
+/**
+ * Spawn the MCP server in local mode and connect a client
+ *
+ * @param env - Extra environment variables (e.g. HISE_API_URL)
+ */
+export async function connectMcpServer(env: Record<string, string>): Promise<Client> {
+  if (!existsSync(SERVER_PATH)) {
+    throw new Error(`${SERVER_PATH} not found - run "npm run build" first (npm run test:integration does this)`);
+  }
+
+  const client = new Client({ name: 'integration-test', version: '1.0.0' });
+  await client.connect(new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_PATH],
+    env: { ...process.env, ...env } as Record<string, string>,
+    stderr: 'ignore',
+  }));
+  return client;
+}
+
+/**
+ * Call a tool and parse its JSON output (error results are plain text)
+ *
+ * @typeParam T - The tool's result type (e.g. HiseScriptResponse); not checked at runtime
+ */
+export async function callTool<T = unknown>(client: Client, name: string, args: Record<string, unknown> = {}): Promise<ToolResult<T>> {
+  const result = await client.callTool({ name, arguments: args });
+  const text = (result.content as { type: string; text: string }[])[0].text;
+  let json: unknown = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Plain text result
+  }
+  return { text, isError: !!result.isError, json: json as T };
+}
@@ -0,0 +1,489 @@
+/**
+ * Mock HISE REST server for offline integration tests
+ *
+ * Implements the /api endpoints used by HiseClient with the response shapes
+ * from src/types.ts. State lives in memory and can be inspected and changed
+ * by tests. Scripted behaviors:
+ * - failCompileWhen(): compile errors with HISE-style callstacks
+ * - setDelay(): slow endpoints (for timeouts)
+ * - dropNext(): reset connections (HISE busy or restarting)
+ * - overrideResponse(): fixed JSON for an endpoint (e.g. a changed response shape)
+ * - lockProperty(): properties set by script (rejected without force)
+ * - queueLog(): console output returned with the next response
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type {
+  HiseError,
+  HiseExternalFile,
+  HiseComponentHierarchy,
+  HiseComponentProperty,
+} from '../../src/types.ts';
+
+export type MockPropertyValue = string | number | boolean;
+
+export interface MockComponent {
+  id: string;
+  type: string;
+  parentId?: string;
+  properties: Record<string, MockPropertyValue>;   // Current values (x, y, width, height, visible, enabled...)
+  defaults?: Record<string, MockPropertyValue>;    // Properties equal to their default report isDefault
+  value?: number;
+  min?: number;
+  max?: number;
+}
+
+export interface MockProcessor {
+  moduleId: string;
+  isMainInterface?: boolean;
+  callbacks: Record<string, string>;
+  externalFiles?: HiseExternalFile[];
+  components?: MockComponent[];
+}
+
+export interface MockHiseState {
+  version?: string;       // Reported as server.version (default 4.1.0)
+  missingEndpoints?: string[];  // Answered with 404, like a HISE build without them
+  project: { name: string; projectFolder: string; scriptsFolder: string };
+  processors: MockProcessor[];
+  selection?: string[];   // Selected component IDs (Interface Designer)
+}
+
+export interface MockRequest {
+  method: string;
+  endpoint: string;
+  query: Record<string, string>;
+  body?: Record<string, unknown>;
+  abandoned: boolean;  // The client closed the connection before the response was sent
+}
+
+interface CompileRule {
+  pattern: RegExp;
+  errorMessage: string;
+}
+
+/** 1x1 transparent PNG */
+const PNG_1X1 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export class MockHiseServer {
+  state: MockHiseState;
+  requests: MockRequest[] = [];
+  private server: Server | null = null;
+  private compileRules: CompileRule[] = [];
+  private delays: Map<string, number> = new Map();
+  private drops: Map<string, { after: number; count: number }> = new Map();
+  private overrides: Map<string, unknown> = new Map();
+  private locks: Set<string> = new Set();
+  private pendingLogs: string[] = [];
+  private initialState: MockHiseState;
+
+  constructor(state: MockHiseState) {
+    this.state = state;
+    this.initialState = structuredClone(state);
+  }
+
+  /**
+   * Start listening on a free port (or a given one, to simulate a HISE restart)
+   *
+   * @returns The base URL (use as HISE_API_URL)
+   */
+  async start(port: number = 0): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(err => {
+        this.send(res, 500, { success: false, errorMessage: String(err) });
+      });
+    });
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', resolve));
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  // ==========================================================================
+  // Scripted Behaviors
+  // ==========================================================================
+
+  /**
+   * Report a compile error wherever pattern matches a callback of the compiled module
+   * The callstack points at the match like HISE does ("onInit() at Interface.js:3:5").
+   */
+  failCompileWhen(pattern: RegExp, errorMessage: string): void {
+    this.compileRules.push({ pattern, errorMessage });
+  }
+
+  /**
+   * Delay responses of an endpoint (e.g. "/api/status") by ms
+   */
+  setDelay(endpoint: string, ms: number): void {
+    this.delays.set(endpoint, ms);
+  }
+
+  /**
+   * Answer every request to an endpoint with data instead of the simulated response
+   */
+  overrideResponse(endpoint: string, data: unknown): void {
+    this.overrides.set(endpoint, data);
+  }
+
+  /**
+   * Reset the connection of the next count requests to an endpoint without answering
+   *
+   * @param after - Answer this many requests first (e.g. 1 to fail only the second write)
+   */
+  dropNext(endpoint: string, count: number = 1, after: number = 0): void {
+    this.drops.set(endpoint, { after, count });
+  }
+
+  /**
+   * Mark a component property as set by script (set_component_properties rejects it without force)
+   */
+  lockProperty(componentId: string, property: string): void {
+    this.locks.add(`${componentId}.${property}`);
+  }
+
+  /**
+   * Return a console line with the next response
+   */
+  queueLog(line: string): void {
+    this.pendingLogs.push(line);
+  }
+
+  /**
+   * Clear behaviors and the request log (state is kept)
+   */
+  reset(): void {
+    this.requests = [];
+    this.compileRules = [];
+    this.delays.clear();
+    this.drops.clear();
+    this.overrides.clear();
+    this.locks.clear();
+    this.pendingLogs = [];
+  }
+
+  /**
+   * Put the state (scripts, components, selection) back to what the constructor got
+   */
+  restoreState(): void {
+    this.state = structuredClone(this.initialState);
+  }
+
+  getProcessor(moduleId: string): MockProcessor | undefined {
+    return this.state.processors.find(p => p.moduleId === moduleId);
+  }
+
+  /**
+   * Requests to an endpoint (e.g. "/api/set_script")
+   */
+  requestsTo(endpoint: string): MockRequest[] {
+    return this.requests.filter(r => r.endpoint === endpoint);
+  }
+
+  // ==========================================================================
+  // Request Handling
+  // ==========================================================================
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const query = Object.fromEntries(url.searchParams.entries());
+
+    let body: Record<string, unknown> | undefined;
+    if (req.method === 'POST') {
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      body = raw ? JSON.parse(raw) : {};
+    }
+
+    const request: MockRequest = { method: req.method || 'GET', endpoint: url.pathname, query, body, abandoned: false };
+    this.requests.push(request);
+    res.on('close', () => {
+      request.abandoned = !res.writableFinished;
+    });
+
+    const drop = this.drops.get(url.pathname);
+    if (drop && drop.after > 0) {
+      drop.after--;
+    } else if (drop && drop.count > 0) {
+      drop.count--;
+      req.socket.destroy();
+      return;
+    }
+
+    const delay = this.delays.get(url.pathname);
+    if (delay) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      if (res.destroyed) return;
+    }
+
+    if (this.overrides.has(url.pathname)) {
+      this.send(res, 200, this.overrides.get(url.pathname));
+      return;
+    }
+
+    const handler = this.state.missingEndpoints?.includes(url.pathname)
+      ? undefined
+      : this.routes()[`${req.method} ${url.pathname}`];
+    if (!handler) {
+      this.send(res, 404, { success: false, errorMessage: `Unknown endpoint ${url.pathname}` });
+      return;
+    }
+
+    const result = handler(query, body || {});
+    this.send(res, 200, { logs: this.takeLogs(), errors: [], ...result });
+  }
+
+  private routes(): Record<string, (query: Record<string, string>, body: Record<string, unknown>) => Record<string, unknown>> {
+    return {
+      'GET /api/status': () => this.status(),
+      'GET /api/get_script': query => this.getScript(query.moduleId, query.callback),
+      'POST /api/set_script': (_query, body) => this.setScript(body),
+      'POST /api/recompile': (_query, body) => this.recompile(body.moduleId as string),
+      'GET /api/screenshot': query => this.screenshot(query),
+      'GET /api/list_components': query => this.listComponents(query.moduleId, query.hierarchy === 'true'),
+      'GET /api/get_component_properties': query => this.getComponentProperties(query.moduleId, query.id),
+      'POST /api/set_component_properties': (_query, body) => this.setComponentProperties(body),
+      'GET /api/get_component_value': query => this.getComponentValue(query.moduleId, query.id),
+      'POST /api/set_component_value': (_query, body) => this.setComponentValue(body),
+      'GET /api/get_selected_components': query => this.getSelectedComponents(query.moduleId || 'Interface'),
+    };
+  }
+
+  private send(res: ServerResponse, status: number, data: unknown): void {
+    if (res.destroyed) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+
+  private takeLogs(): string[] {
+    const logs = this.pendingLogs;
+    this.pendingLogs = [];
+    return logs;
+  }
+
+  private failure(moduleId: string | undefined, errorMessage: string): Record<string, unknown> {
+    return { success: false, moduleId, errors: [{ errorMessage, callstack: [] }] };
+  }
+
+  // ==========================================================================
+  // Scripts
+  // ==========================================================================
+
+  private status(): Record<string, unknown> {
+    return {
+      success: true,
+      server: { version: this.state.version ?? '4.1.0', compileTimeout: '5' },
+      project: this.state.project,
+      scriptProcessors: this.state.processors.map(p => ({
+        moduleId: p.moduleId,
+        isMainInterface: !!p.isMainInterface,
+        externalFiles: (p.externalFiles || []).map(f => f.path),
+        callbacks: Object.entries(p.callbacks).map(([id, script]) => ({ id, empty: script.trim() === '' })),
+      })),
+    };
+  }
+
+  private getScript(moduleId: string, callback?: string): Record<string, unknown> {
+    const processor = this.getProcessor(moduleId);
+    if (!processor) return this.failure(moduleId, `Module ${moduleId} not found`);
+
+    let callbacks = processor.callbacks;
+    if (callback) {
+      if (!(callback in processor.callbacks)) return this.failure(moduleId, `Callback ${callback} not found`);
+      callbacks = { [callback]: processor.callbacks[callback] };
+    }
+
+    return { success: true, moduleId, callbacks: { ...callbacks }, externalFiles: processor.externalFiles || [] };
+  }
+
+  private setScript(body: Record<string, unknown>): Record<string, unknown> {
+    const moduleId = body.moduleId as string;
+    const processor = this.getProcessor(moduleId);
+    if (!processor) return this.failure(moduleId, `Module ${moduleId} not found`);
+
+    const callbacks = body.callbacks as Record<string, string>;
+    Object.assign(processor.callbacks, callbacks);
+    const updatedCallbacks = Object.keys(callbacks);
+
+    if (body.compile === false) {
+      return { success: true, moduleId, updatedCallbacks, result: 'Script updated (not compiled)' };
+    }
+    return { ...this.compile(processor), updatedCallbacks };
+  }
+
+  private recompile(moduleId: string): Record<string, unknown> {
+    const processor = this.getProcessor(moduleId);
+    if (!processor) return this.failure(moduleId, `Module ${moduleId} not found`);
+    return this.compile(processor);
+  }
+
+  private compile(processor: MockProcessor): Record<string, unknown> {
+    const errors: HiseError[] = [];
+
+    for (const rule of this.compileRules) {
+      for (const [callback, script] of Object.entries(processor.callbacks)) {
+        const match = rule.pattern.exec(script);
+        if (!match) continue;
+
+        const before = script.slice(0, match.index).split('\n');
+        const line = before.length;
+        const column = before[before.length - 1].length + 1;
+        errors.push({
+          errorMessage: rule.errorMessage,
+          callstack: [`${callback}() at ${processor.moduleId}.js:${line}:${column}`],
+        });
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      moduleId: processor.moduleId,
+      result: errors.length ? 'Compilation failed' : 'Compiled OK',
+      errors,
+    };
+  }
+
+  // ==========================================================================
+  // Components
+  // ==========================================================================
+
+  private findComponent(moduleId: string, id: string): MockComponent | undefined {
+    return this.getProcessor(moduleId)?.components?.find(c => c.id === id);
+  }
+
+  private screenshot(query: Record<string, string>): Record<string, unknown> {
+    const moduleId = query.moduleId || 'Interface';
+    if (query.id && !this.findComponent(moduleId, query.id)) {
+      return this.failure(moduleId, `Component ${query.id} not found`);
+    }
+
+    const scale = query.scale ? parseFloat(query.scale) : 1;
+    const result: Record<string, unknown> = { success: true, moduleId, id: query.id, width: 600, height: 400, scale };
+    if (query.outputPath) {
+      result.filePath = query.outputPath;
+    } else {
+      result.imageData = PNG_1X1;
+    }
+    return result;
+  }
+
+  private listComponents(moduleId: string, hierarchy: boolean): Record<string, unknown> {
+    const processor = this.getProcessor(moduleId);
+    if (!processor) return this.failure(moduleId, `Module ${moduleId} not found`);
+    const components = processor.components || [];
+
+    if (!hierarchy) {
+      return { success: true, moduleId, components: components.map(c => ({ id: c.id, type: c.type })) };
+    }
+
+    const build = (parentId: string | undefined): HiseComponentHierarchy[] =>
+      components
+        .filter(c => c.parentId === parentId)
+        .map(c => ({
+          id: c.id,
+          type: c.type,
+          visible: c.properties.visible !== false,
+          enabled: c.properties.enabled !== false,
+          x: Number(c.properties.x ?? 0),
+          y: Number(c.properties.y ?? 0),
+          width: Number(c.properties.width ?? 128),
+          height: Number(c.properties.height ?? 48),
+          childComponents: build(c.id),
+        }));
+
+    return { success: true, moduleId, components: build(undefined) };
+  }
+
+  private propertyList(component: MockComponent): HiseComponentProperty[] {
+    return Object.entries(component.properties).map(([id, value]) => ({
+      id,
+      value,
+      isDefault: component.defaults?.[id] === value,
+    }));
+  }
+
+  private getComponentProperties(moduleId: string, id: string): Record<string, unknown> {
+    const component = this.findComponent(moduleId, id);
+    if (!component) return this.failure(moduleId, `Component ${id} not found`);
+    return { success: true, moduleId, id, type: component.type, properties: this.propertyList(component) };
+  }
+
+  private setComponentProperties(body: Record<string, unknown>): Record<string, unknown> {
+    const moduleId = body.moduleId as string;
+    const changes = body.changes as { id: string; properties: Record<string, MockPropertyValue> }[];
+
+    for (const change of changes) {
+      if (!this.findComponent(moduleId, change.id)) return this.failure(moduleId, `Component ${change.id} not found`);
+    }
+
+    const locked = changes.flatMap(change =>
+      Object.keys(change.properties)
+        .filter(property => this.locks.has(`${change.id}.${property}`))
+        .map(property => ({ id: change.id, property }))
+    );
+    if (locked.length && !body.force) {
+      return {
+        success: false,
+        moduleId,
+        locked,
+        errorMessage: 'Some properties are set by script. Use force=true to override (the script will reset them on recompile).',
+      };
+    }
+
+    const applied = changes.map(change => {
+      Object.assign(this.findComponent(moduleId, change.id)!.properties, change.properties);
+      return { id: change.id, properties: Object.keys(change.properties) };
+    });
+    return { success: true, moduleId, applied, recompileRequired: locked.length > 0 };
+  }
+
+  private getComponentValue(moduleId: string, id: string): Record<string, unknown> {
+    const component = this.findComponent(moduleId, id);
+    if (!component) return this.failure(moduleId, `Component ${id} not found`);
+    return {
+      success: true,
+      moduleId,
+      id,
+      type: component.type,
+      value: component.value ?? 0,
+      min: component.min ?? 0,
+      max: component.max ?? 1,
+    };
+  }
+
+  private setComponentValue(body: Record<string, unknown>): Record<string, unknown> {
+    const moduleId = body.moduleId as string;
+    const id = body.id as string;
+    const value = body.value as number;
+    const component = this.findComponent(moduleId, id);
+    if (!component) return this.failure(moduleId, `Component ${id} not found`);
+
+    const min = component.min ?? 0;
+    const max = component.max ?? 1;
+    if (body.validateRange && (value < min || value > max)) {
+      return { ...this.failure(moduleId, `Value ${value} is out of range [${min}, ${max}]`), id, type: component.type };
+    }
+
+    component.value = value;
+    return { success: true, moduleId, id, type: component.type };
+  }
+
+  private getSelectedComponents(moduleId: string): Record<string, unknown> {
+    const selected = (this.state.selection || [])
+      .map(id => this.findComponent(moduleId, id))
+      .filter((c): c is MockComponent => !!c);
+
+    return {
+      success: true,
+      moduleId,
+      selectionCount: selected.length,
+      components: selected.map(c => ({ id: c.id, type: c.type, properties: this.propertyList(c) })),
+    };
+  }
+}
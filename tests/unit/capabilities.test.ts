@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { getMissingEndpoints, getRequiredVersion, parseVersion, supportsTool, supportsVersion } from '../../src/capabilities.ts';
+
+describe('parseVersion', () => {
+  it('should find the version number in HISE version strings', () => {
+    assert.deepStrictEqual(parseVersion('4.1.0'), [4, 1, 0]);
+    assert.deepStrictEqual(parseVersion('4.1'), [4, 1, 0]);
+    assert.deepStrictEqual(parseVersion('HISE 4.0.12 (develop)'), [4, 0, 12]);
+    assert.strictEqual(parseVersion('develop'), null);
+  });
+});
+
+describe('capabilities', () => {
+  const unavailable = new Set(['/api/screenshot', '/api/recompile']);
+
+  it('should require the newest endpoint a tool uses', () => {
+    assert.strictEqual(getRequiredVersion('hise_runtime_get_script'), '4.0.0');
+    assert.strictEqual(getRequiredVersion('hise_runtime_screenshot'), '4.1.0');
+    assert.strictEqual(getRequiredVersion('hise_runtime_list_script_history'), null);
+  });
+
+  it('should compare versions numerically', () => {
+    assert.strictEqual(supportsVersion('hise_runtime_screenshot', '4.0.9'), false);
+    assert.strictEqual(supportsVersion('hise_runtime_screenshot', '4.1.0'), true);
+    assert.strictEqual(supportsVersion('hise_runtime_screenshot', '4.10.0'), true);
+    assert.strictEqual(supportsVersion('hise_runtime_get_script', '4.0.0'), true);
+  });
+
+  it('should assume support when the version is unknown', () => {
+    assert.strictEqual(supportsVersion('hise_runtime_screenshot', null), true);
+    assert.strictEqual(supportsVersion('hise_runtime_screenshot', 'develop'), true);
+  });
+
+  it('should list the missing endpoints a tool calls', () => {
+    assert.deepStrictEqual(getMissingEndpoints('hise_runtime_screenshot', unavailable), ['/api/screenshot']);
+    assert.deepStrictEqual(getMissingEndpoints('hise_runtime_import_scripts', unavailable), ['/api/recompile']);
+    assert.deepStrictEqual(getMissingEndpoints('hise_runtime_get_script', unavailable), []);
+  });
+
+  it('should support tools that the version allows and whose endpoints all exist', () => {
+    assert.strictEqual(supportsTool('hise_runtime_screenshot', '4.1.0', new Set()), true);
+    assert.strictEqual(supportsTool('hise_runtime_screenshot', '4.0.0', new Set()), false);
+    assert.strictEqual(supportsTool('hise_runtime_screenshot', '4.1.0', unavailable), false);
+    assert.strictEqual(supportsTool('hise_runtime_get_script', '4.1.0', unavailable), true);
+    assert.strictEqual(supportsTool('hise_runtime_list_script_history', '4.0.0', unavailable), true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CassettePlayer, CassetteRecorder, parseCassette } from '../../src/cassette.ts';
+import type { CassetteEntry } from '../../src/types.ts';
+
+function entry(path: string, response: unknown, extra: Partial<CassetteEntry> = {}): CassetteEntry {
+  return { timestamp: '2026-01-01T00:00:00.000Z', method: 'GET', path, response, durationMs: 5, ...extra };
+}
+
+describe('parseCassette', () => {
+  it('should parse JSONL and skip blank lines', () => {
+    const text = JSON.stringify(entry('/api/status', { success: true })) + '\n\n' +
+      JSON.stringify(entry('/api/get_script?moduleId=Interface', { success: true })) + '\n';
+
+    assert.deepStrictEqual(parseCassette(text).map(e => e.path), ['/api/status', '/api/get_script?moduleId=Interface']);
+  });
+
+  it('should report the line number of invalid entries', () => {
+    assert.throws(() => parseCassette('{"method":"GET","path":"/api/status"}\n{oops'), /line 2/);
+    assert.throws(() => parseCassette('{"response":{}}'), /line 1/);
+  });
+});
+
+describe('CassettePlayer', () => {
+  it('should replay identical requests in order and then repeat the last response', () => {
+    const player = new CassettePlayer([
+      entry('/api/status', { n: 1 }),
+      entry('/api/status', { n: 2 }),
+    ]);
+
+    assert.deepStrictEqual(player.next('GET', '/api/status'), { n: 1 });
+    assert.deepStrictEqual(player.next('GET', '/api/status'), { n: 2 });
+    assert.deepStrictEqual(player.next('GET', '/api/status'), { n: 2 });
+  });
+
+  it('should match POST requests by body', () => {
+    const player = new CassettePlayer([
+      entry('/api/recompile', { moduleId: 'A' }, { method: 'POST', body: { moduleId: 'A' } }),
+      entry('/api/recompile', { moduleId: 'B' }, { method: 'POST', body: { moduleId: 'B' } }),
+    ]);
+
+    assert.deepStrictEqual(player.next('POST', '/api/recompile', { moduleId: 'B' }), { moduleId: 'B' });
+    assert.throws(() => player.next('POST', '/api/recompile', { moduleId: 'C' }), /No recorded response/);
+  });
+
+  it('should rethrow recorded errors', () => {
+    const player = new CassettePlayer([entry('/api/status', undefined, { error: 'HISE API timeout after 3000ms' })]);
+
+    assert.throws(() => player.next('GET', '/api/status'), /timeout after 3000ms/);
+  });
+
+  it('should hand out copies of the recorded response', () => {
+    const player = new CassettePlayer([entry('/api/status', { list: [1, 2] })]);
+
+    (player.next('GET', '/api/status') as { list: number[] }).list.pop();
+    assert.deepStrictEqual(player.next('GET', '/api/status'), { list: [1, 2] });
+  });
+});
+
+describe('CassetteRecorder', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cassette-'));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per exchange', () => {
+    const file = join(dir, 'session.jsonl');
+    const recorder = new CassetteRecorder(file);
+
+    recorder.record(entry('/api/status', { success: true }));
+    recorder.record(entry('/api/status', undefined, { error: 'Cannot connect' }));
+
+    const entries = parseCassette(readFileSync(file, 'utf8'));
+    assert.strictEqual(entries.length, 2);
+    assert.strictEqual(entries[1].error, 'Cannot connect');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { ConnectivityMonitor } from '../../src/connectivity-monitor.ts';
+
+describe('ConnectivityMonitor', () => {
+  let monitor: ConnectivityMonitor | null = null;
+
+  afterEach(() => {
+    monitor?.stop();
+  });
+
+  it('should set the initial state without reporting a change', async () => {
+    const changes: boolean[] = [];
+    monitor = new ConnectivityMonitor(async () => true, a => changes.push(a), 60000);
+
+    assert.strictEqual(await monitor.start(), true);
+    assert.strictEqual(monitor.isAvailable(), true);
+    assert.deepStrictEqual(changes, []);
+  });
+
+  it('should report only transitions', async () => {
+    let up = false;
+    const changes: boolean[] = [];
+    monitor = new ConnectivityMonitor(async () => up, a => changes.push(a), 60000);
+    await monitor.start();
+
+    await monitor.poll();
+    up = true;
+    await monitor.poll();
+    await monitor.poll();
+    up = false;
+    await monitor.poll();
+
+    assert.deepStrictEqual(changes, [true, false]);
+    assert.strictEqual(monitor.isAvailable(), false);
+  });
+
+  it('should treat a throwing check as unavailable', async () => {
+    monitor = new ConnectivityMonitor(async () => { throw new Error('boom'); }, () => {}, 60000);
+
+    assert.strictEqual(await monitor.start(), false);
+  });
+
+  it('should share a check that is already running', async () => {
+    let calls = 0;
+    monitor = new ConnectivityMonitor(async () => { calls++; return true; }, () => {}, 60000);
+
+    await Promise.all([monitor.poll(), monitor.poll(), monitor.poll()]);
+    assert.strictEqual(calls, 1);
+  });
+
+  it('should poll in the background', async () => {
+    let up = false;
+    const changes: boolean[] = [];
+    monitor = new ConnectivityMonitor(async () => up, a => changes.push(a), 10);
+    await monitor.start();
+
+    up = true;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.deepStrictEqual(changes, [true]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { ConsoleLog, parseConsoleLine } from '../../src/console-log.ts';
+
+const MODULES = new Set(['Interface', 'Script FX1']);
+
+describe('parseConsoleLine', () => {
+  it('should take the module from a known prefix', () => {
+    assert.deepStrictEqual(parseConsoleLine('Script FX1: gain 0.5\n', MODULES), {
+      severity: 'info',
+      module: 'Script FX1',
+      message: 'gain 0.5',
+    });
+  });
+
+  it('should keep unknown prefixes in the message and fall back to the default module', () => {
+    assert.deepStrictEqual(parseConsoleLine('Value: 5', MODULES, 'Interface'), {
+      severity: 'info',
+      module: 'Interface',
+      message: 'Value: 5',
+    });
+  });
+
+  it('should detect warnings and errors', () => {
+    assert.strictEqual(parseConsoleLine('Warning: buffer size changed', MODULES).severity, 'warning');
+    assert.strictEqual(parseConsoleLine('Interface: Error: index out of range', MODULES).severity, 'error');
+    assert.strictEqual(parseConsoleLine('! Assertion failure', MODULES).severity, 'error');
+    assert.strictEqual(parseConsoleLine('no errors so far', MODULES).severity, 'info');
+  });
+});
+
+describe('ConsoleLog', () => {
+  function fill(log: ConsoleLog): void {
+    log.add({ severity: 'info', module: 'Interface', message: 'init done' });
+    log.add({ severity: 'warning', module: 'Script FX1', message: 'Warning: slow' });
+    log.add({ severity: 'info', module: 'Script FX1', message: 'gain 0.5' });
+    log.add({ severity: 'error', module: 'Interface', message: 'Unknown function foo' });
+  }
+
+  it('should filter by module, pattern and minimum severity', () => {
+    const log = new ConsoleLog();
+    fill(log);
+
+    assert.deepStrictEqual(log.query({ module: 'Script FX1' }).entries.map(e => e.message), ['Warning: slow', 'gain 0.5']);
+    assert.deepStrictEqual(log.query({ pattern: 'GAIN \\d' }).entries.map(e => e.message), ['gain 0.5']);
+    assert.deepStrictEqual(log.query({ severity: 'warning' }).entries.map(e => e.severity), ['warning', 'error']);
+  });
+
+  it('should return the newest entries when limited', () => {
+    const log = new ConsoleLog();
+    fill(log);
+
+    const result = log.query({ limit: 2 });
+    assert.deepStrictEqual(result.entries.map(e => e.id), [3, 4]);
+    assert.strictEqual(result.matched, 4);
+  });
+
+  it('should only return new entries with sinceLastCall', () => {
+    const log = new ConsoleLog();
+    fill(log);
+    log.query({ module: 'Interface' });
+
+    log.add({ severity: 'info', module: 'Interface', message: 'after' });
+    assert.deepStrictEqual(log.query({ sinceLastCall: true }).entries.map(e => e.message), ['after']);
+    assert.strictEqual(log.query({ sinceLastCall: true }).entries.length, 0);
+  });
+
+  it('should evict the oldest entries and report unseen drops', () => {
+    const log = new ConsoleLog(3);
+    fill(log);
+    log.add({ severity: 'info', module: null, message: 'fifth' });
+
+    const result = log.query({ sinceLastCall: true });
+    assert.strictEqual(result.buffered, 3);
+    assert.strictEqual(result.dropped, 2);
+    assert.deepStrictEqual(result.entries.map(e => e.id), [3, 4, 5]);
+
+    assert.strictEqual(log.query({}).dropped, 0);
+  });
+
+  it('should reject an invalid pattern', () => {
+    assert.throws(() => new ConsoleLog().query({ pattern: '(' }));
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { editStringInScript } from '../../src/script-utils.ts';
+import { editStringInScript, applyScriptEdits } from '../../src/script-utils.ts';
 import { SIMPLE_SCRIPT, REPETITIVE_SCRIPT } from '../fixtures/sample-scripts.ts';
 
 describe('editStringInScript', () => {
@@ -132,3 +132,152 @@ const name = "updated";`;
     });
   });
 });
+
+describe('editStringInScript fallback matching', () => {
+  const TAB_SCRIPT = 'inline function update()\n{\n\tif (value > 0)\n\t{\n\t\tConsole.print(value);\n\t}\n}';
+
+  it('should report exact matches', () => {
+    const result = editStringInScript(SIMPLE_SCRIPT, 'const value = 123;', 'const value = 456;');
+
+    assert.strictEqual(result.matchStrategy, 'exact');
+  });
+
+  it('should match LF oldString against a CRLF script', () => {
+    const crlfScript = 'const a = 1;\r\nconst b = 2;\r\nconst c = 3;';
+    const result = editStringInScript(crlfScript, 'const a = 1;\nconst b = 2;', 'const a = 5;\nconst b = 6;');
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.matchStrategy, 'line-endings');
+    assert.strictEqual(result.script, 'const a = 5;\r\nconst b = 6;\r\nconst c = 3;');
+  });
+
+  it('should keep CRLF line endings in fuzzy matches without adding one at the end', () => {
+    const crlfScript = '{\r\n\tconst a = 1;\r\n\tconst b = 2;';
+
+    const atEnd = editStringInScript(crlfScript, '  const a = 1;\n  const b = 2;', '  const a = 5;\n  const b = 6;');
+    assert.strictEqual(atEnd.matchStrategy, 'indentation');
+    assert.strictEqual(atEnd.script, '{\r\n\tconst a = 5;\r\n\tconst b = 6;');
+
+    const inside = editStringInScript(crlfScript, '  const a = 1;', '  const a = 7;');
+    assert.strictEqual(inside.script, '{\r\n\tconst a = 7;\r\n\tconst b = 2;');
+  });
+
+  it('should match spaces against tabs and re-indent the replacement with tabs', () => {
+    const result = editStringInScript(
+      TAB_SCRIPT,
+      '    if (value > 0)\n    {\n        Console.print(value);\n    }',
+      '    if (value > 1)\n    {\n        Console.print(value * 2);\n    }'
+    );
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.matchStrategy, 'indentation');
+    assert.strictEqual(result.script, 'inline function update()\n{\n\tif (value > 1)\n\t{\n\t\tConsole.print(value * 2);\n\t}\n}');
+  });
+
+  it('should scale new 2-space indentation to the tabs of the script', () => {
+    const script = 'function f()\n{\n\tif (a) {\n\t\tb();\n\t}\n}';
+    const result = editStringInScript(script, 'if (a) {\n  b();\n}', 'if (a) {\n  c();\n    d();\n}');
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.matchStrategy, 'indentation');
+    assert.strictEqual(result.script, 'function f()\n{\n\tif (a) {\n\t\tc();\n\t\t\td();\n\t}\n}');
+  });
+
+  it('should re-indent an unindented replacement to the matched block', () => {
+    const result = editStringInScript(TAB_SCRIPT, 'Console.print(value);\n}', 'Console.print(value);\nConsole.print("done");\n}');
+
+    assert.strictEqual(result.success, true);
+    assert.ok(result.script?.includes('\t\tConsole.print(value);\n\t\tConsole.print("done");\n\t}'));
+  });
+
+  it('should fall back to trimmed-line matching for trailing whitespace', () => {
+    const script = 'const a = 1;   \nconst b = 2;';
+    const result = editStringInScript(script, 'const a = 1;\nconst b = 2;', 'const a = 1;\nconst b = 3;');
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.matchStrategy, 'trimmed-lines');
+    assert.strictEqual(result.script, 'const a = 1;\nconst b = 3;');
+  });
+
+  it('should delete whole lines when oldString ends with a newline', () => {
+    const script = '\tconst a = 1;\n\tconst b = 2;\n\tconst c = 3;';
+    const result = editStringInScript(script, '    const b = 2;\n', '');
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.script, '\tconst a = 1;\n\tconst c = 3;');
+  });
+
+  it('should fail on multiple fuzzy matches without replaceAll', () => {
+    const script = '\tx = 1;\n\ty = 2;\n\tx = 1;';
+    const result = editStringInScript(script, '  x = 1;', '  x = 3;');
+
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error?.includes('2 times'));
+  });
+
+  it('should not match partial lines with fuzzy strategies', () => {
+    const result = editStringInScript(TAB_SCRIPT, '  print(value);', 'print(other);');
+
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error?.includes('not found'));
+  });
+});
+
+describe('applyScriptEdits', () => {
+  const scripts = {
+    onInit: SIMPLE_SCRIPT,
+    onNoteOn: 'function onNoteOn()\n{\n\tConsole.print(Message.getNoteNumber());\n}',
+  };
+
+  it('should apply edits across several callbacks', () => {
+    const result = applyScriptEdits(scripts, [
+      { callback: 'onInit', oldString: 'const value = 123;', newString: 'const value = 456;' },
+      { callback: 'onNoteOn', oldString: 'Console.print', newString: 'Console.assertTrue' },
+    ]);
+
+    assert.strictEqual(result.success, true);
+    assert.ok(result.callbacks);
+    assert.ok(result.callbacks.onInit.includes('const value = 456;'));
+    assert.ok(result.callbacks.onNoteOn.includes('Console.assertTrue'));
+  });
+
+  it('should apply edits to the same callback in order', () => {
+    const result = applyScriptEdits(scripts, [
+      { callback: 'onInit', oldString: 'const value = 123;', newString: 'const value = 456;' },
+      { callback: 'onInit', oldString: 'const value = 456;', newString: 'const value = 789;' },
+    ]);
+
+    assert.strictEqual(result.success, true);
+    assert.ok(result.callbacks?.onInit.includes('const value = 789;'));
+  });
+
+  it('should only return edited callbacks', () => {
+    const result = applyScriptEdits(scripts, [
+      { callback: 'onInit', oldString: 'const value = 123;', newString: 'const value = 456;' },
+    ]);
+
+    assert.deepStrictEqual(Object.keys(result.callbacks!), ['onInit']);
+  });
+
+  it('should fail without any changes when one edit does not match', () => {
+    const result = applyScriptEdits(scripts, [
+      { callback: 'onInit', oldString: 'const value = 123;', newString: 'const value = 456;' },
+      { callback: 'onInit', oldString: 'const value = 123;', newString: 'const value = 789;' },
+      { callback: 'onNoteOn', oldString: 'Console.print', newString: 'Console.assertTrue' },
+    ]);
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.callbacks, undefined);
+    assert.strictEqual(result.failedEditIndex, 1);
+    assert.ok(result.error?.includes('Edit 2 of 3'));
+  });
+
+  it('should fail on an unknown callback', () => {
+    const result = applyScriptEdits(scripts, [
+      { callback: 'onTimer', oldString: 'x', newString: 'y' },
+    ]);
+
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error?.includes("callback 'onTimer' not found"));
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, writeFileSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ErrorPatternRegistry, parseErrorPatterns, buildAutoFix } from '../../src/error-patterns.ts';
+import type { ErrorCodeContext } from '../../src/types.ts';
+
+const MISMATCH = 'argument amount mismatch: 4. Expected: 1';
+
+describe('parseErrorPatterns', () => {
+  it('should compile patterns with case-insensitive messages by default', () => {
+    const { patterns, errors } = parseErrorPatterns({
+      patterns: [{ id: 'a', pattern: 'unknown function', codePattern: 'foo\\(', suggestion: 'Use bar()' }],
+    });
+
+    assert.strictEqual(errors.length, 0);
+    assert.ok(patterns[0].pattern.test('Unknown Function'));
+    assert.ok(!patterns[0].codePattern!.test('FOO('));
+  });
+
+  it('should skip invalid entries and report them', () => {
+    const { patterns, errors } = parseErrorPatterns({
+      patterns: [
+        { id: 'ok', pattern: 'x', suggestion: 's' },
+        { id: 'bad-regex', pattern: '(', suggestion: 's' },
+        { id: 'ok', pattern: 'y', suggestion: 's' },
+        { pattern: 'z' },
+      ],
+    });
+
+    assert.deepStrictEqual(patterns.map(p => p.id), ['ok']);
+    assert.strictEqual(errors.length, 3);
+    assert.ok(errors[0].includes("'bad-regex'"));
+    assert.ok(errors[1].includes('duplicate'));
+  });
+
+  it('should reject a file without a patterns array', () => {
+    const { patterns, errors } = parseErrorPatterns([]);
+
+    assert.strictEqual(patterns.length, 0);
+    assert.strictEqual(errors.length, 1);
+  });
+});
+
+describe('ErrorPatternRegistry', () => {
+  describe('bundled patterns', () => {
+    it('should load data/error_patterns.json without errors', () => {
+      const stats = new ErrorPatternRegistry().getStats();
+
+      assert.ok(stats.loaded >= 3);
+      assert.deepStrictEqual(stats.loadErrors, []);
+    });
+
+    it('should match the graphics array pattern only with matching code', () => {
+      const registry = new ErrorPatternRegistry();
+
+      assert.deepStrictEqual(
+        registry.findMatches(MISMATCH, '5: g.fillRect(0, 0, 10, 10);').map(p => p.id),
+        ['graphics-array-args']
+      );
+      assert.strictEqual(registry.findMatches(MISMATCH, '5: g.fillRect(area);').length, 0);
+    });
+  });
+
+  describe('custom pattern file', () => {
+    let dir: string;
+    let file: string;
+
+    before(() => {
+      dir = mkdtempSync(join(tmpdir(), 'error-patterns-'));
+      file = join(dir, 'patterns.json');
+    });
+
+    after(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return every matching pattern and count hits', () => {
+      writeFileSync(file, JSON.stringify({
+        patterns: [
+          { id: 'generic', pattern: 'mismatch', suggestion: 'Check the argument count' },
+          { id: 'specific', pattern: 'mismatch.*Expected: 1', suggestion: 'Pass an array' },
+          { id: 'unrelated', pattern: 'const var', suggestion: 'Use var' },
+        ],
+      }));
+      const registry = new ErrorPatternRegistry(file);
+
+      const matches = registry.findMatches(MISMATCH);
+      registry.findMatches('argument amount mismatch: 2. Expected: 3');
+
+      assert.deepStrictEqual(matches.map(p => p.suggestion), ['Check the argument count', 'Pass an array']);
+      assert.deepStrictEqual(registry.getStats().hits, { generic: 2, specific: 1, unrelated: 0 });
+    });
+
+    it('should reload when the file changes', () => {
+      writeFileSync(file, JSON.stringify({ patterns: [{ id: 'one', pattern: 'a', suggestion: 's' }] }));
+      const registry = new ErrorPatternRegistry(file);
+      assert.strictEqual(registry.getStats().loaded, 1);
+
+      writeFileSync(file, JSON.stringify({
+        patterns: [
+          { id: 'one', pattern: 'a', suggestion: 's' },
+          { id: 'two', pattern: 'b', suggestion: 's' },
+        ],
+      }));
+      const later = new Date(Date.now() + 5000);
+      utimesSync(file, later, later);
+
+      assert.strictEqual(registry.getStats().loaded, 2);
+    });
+
+    it('should report a missing file', () => {
+      const stats = new ErrorPatternRegistry(join(dir, 'missing.json')).getStats();
+
+      assert.strictEqual(stats.loaded, 0);
+      assert.strictEqual(stats.loadErrors.length, 1);
+    });
+  });
+});
+
+describe('buildAutoFix', () => {
+  const registry = new ErrorPatternRegistry();
+  const pattern = (id: string) => registry.getPatterns().find(p => p.id === id)!;
+
+  function context(code: string, callback = 'onInit'): ErrorCodeContext {
+    return { callback, line: 2, column: 3, code };
+  }
+
+  it('should turn separate graphics arguments into an array', () => {
+    const fix = buildAutoFix(
+      pattern('graphics-array-args'),
+      context('4: {\n5: \tg.fillRect(0, 0, w, h);\n6: \tg.drawRect(x, y, 10, 10, 2);')
+    );
+
+    assert.deepStrictEqual(fix, {
+      patternId: 'graphics-array-args',
+      description: 'Wrap the x, y, w, h arguments in an array',
+      callback: 'onInit',
+      oldString: '\tg.fillRect(0, 0, w, h);\n\tg.drawRect(x, y, 10, 10, 2);',
+      newString: '\tg.fillRect([0, 0, w, h]);\n\tg.drawRect([x, y, 10, 10], 2);',
+    });
+  });
+
+  it('should only include the changed lines', () => {
+    const fix = buildAutoFix(
+      pattern('assert-with-message'),
+      context('9: var ok = true;\n10: Console.assertTrue(ok, "failed");\n11: Console.assertTrue(ok);')
+    );
+
+    assert.strictEqual(fix!.oldString, 'Console.assertTrue(ok, "failed");');
+    assert.strictEqual(fix!.newString, 'Console.assertWithMessage(ok, "failed");');
+  });
+
+  it('should map anonymous functions to onInit', () => {
+    const fix = buildAutoFix(pattern('graphics-array-args'), context('3: g.fillRect(0, 0, 10, 10);', 'function'));
+
+    assert.strictEqual(fix!.callback, 'onInit');
+  });
+
+  it('should return null without a fix, code context or change', () => {
+    assert.strictEqual(buildAutoFix(pattern('const-in-inline'), context('1: const var x = 1;')), null);
+    assert.strictEqual(buildAutoFix(pattern('graphics-array-args')), null);
+    assert.strictEqual(buildAutoFix(pattern('graphics-array-args'), context('3: g.fillRect(area);')), null);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { loadHiseInstances, parseEnvInt, parseHiseInstances } from '../../src/instance-config.ts';
+
+describe('parseHiseInstances', () => {
+  it('should parse name=url pairs in order', () => {
+    assert.deepStrictEqual(parseHiseInstances(' stable=http://localhost:1900, develop=http://localhost:1901/ ,'), [
+      { name: 'stable', url: 'http://localhost:1900' },
+      { name: 'develop', url: 'http://localhost:1901' },
+    ]);
+  });
+
+  it('should reject malformed entries, duplicates and non-http URLs', () => {
+    assert.throws(() => parseHiseInstances('http://localhost:1900'), /expected name=url/);
+    assert.throws(() => parseHiseInstances('a b=http://localhost:1900'), /expected name=url/);
+    assert.throws(() => parseHiseInstances('a=http://x:1,a=http://y:2'), /Duplicate HISE instance name "a"/);
+    assert.throws(() => parseHiseInstances('a=localhost:1900'), /Invalid URL for HISE instance "a"/);
+  });
+});
+
+describe('loadHiseInstances', () => {
+  it('should fall back to a default instance at HISE_API_URL', () => {
+    assert.deepStrictEqual(loadHiseInstances({ HISE_API_URL: 'http://127.0.0.1:2000' }), [
+      { name: 'default', url: 'http://127.0.0.1:2000' },
+    ]);
+    assert.deepStrictEqual(loadHiseInstances({ HISE_INSTANCES: '' }), [
+      { name: 'default', url: 'http://localhost:1900' },
+    ]);
+  });
+
+  it('should prefer HISE_INSTANCES', () => {
+    const instances = loadHiseInstances({ HISE_INSTANCES: 'develop=http://localhost:1901', HISE_API_URL: 'http://localhost:1900' });
+    assert.deepStrictEqual(instances.map(i => i.name), ['develop']);
+  });
+});
+
+describe('parseEnvInt', () => {
+  it('should parse non-negative integers', () => {
+    assert.strictEqual(parseEnvInt('0', 5), 0);
+    assert.strictEqual(parseEnvInt(' 2500 ', 5), 2500);
+  });
+
+  it('should fall back for missing or invalid values', () => {
+    for (const value of [undefined, '', 'abc', '-1', '1.5', '10s', '1e3', '99999999999999999999']) {
+      assert.strictEqual(parseEnvInt(value, 5), 5, `value ${value}`);
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { lintHiseScript, maskStringsAndComments } from '../../src/script-analysis.ts';
+import { SAMPLE_API_INDEX } from '../fixtures/sample-api.ts';
+
+describe('lintHiseScript', () => {
+  describe('valid code', () => {
+    it('should accept known calls with correct argument counts', () => {
+      const script = `Console.print("Hello");
+const var knob = Content.getComponent("Knob1");
+Synth.addNoteOn(1, 60, 100, 0);`;
+      const result = lintHiseScript(script, SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.checkedCalls, 3);
+      assert.strictEqual(result.issues.length, 0);
+    });
+
+    it('should ignore calls inside strings and comments', () => {
+      const script = `// Console.prnt("x");
+/* Synth.foo(1) */
+Console.print("Synth.bar(1, 2)");`;
+      const result = lintHiseScript(script, SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.checkedCalls, 1);
+    });
+
+    it('should ignore method calls on variables', () => {
+      const result = lintHiseScript('knob.set("text", "Gain");\ng.fillRect(0, 0, 10, 10);', SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.checkedCalls, 0);
+      assert.strictEqual(result.issues.length, 0);
+    });
+
+    it('should not treat script-declared names as namespaces', () => {
+      const script = `namespace Console\n{\n\tinline function custom() {}\n}\nConsole.custom();`;
+      const result = lintHiseScript(script, SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.issues.length, 0);
+    });
+  });
+
+  describe('unknown methods', () => {
+    it('should report an unknown method with its location', () => {
+      const result = lintHiseScript('const x = 1;\n  Console.prnt("x");', SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.valid, false);
+      assert.strictEqual(result.issues.length, 1);
+      assert.strictEqual(result.issues[0].rule, 'unknown-method');
+      assert.strictEqual(result.issues[0].apiCall, 'Console.prnt');
+      assert.strictEqual(result.issues[0].line, 2);
+      assert.strictEqual(result.issues[0].column, 3);
+    });
+
+    it('should report wrong capitalization', () => {
+      const result = lintHiseScript('Console.Print("x");', SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.issues[0].rule, 'wrong-case');
+      assert.strictEqual(result.issues[0].suggestion, 'Console.print');
+    });
+  });
+
+  describe('argument counts', () => {
+    it('should report too many arguments', () => {
+      const result = lintHiseScript('Console.print("a", "b");', SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.valid, false);
+      assert.strictEqual(result.issues[0].rule, 'argument-count');
+      assert.ok(result.issues[0].message.includes('2 given, expected 1'));
+    });
+
+    it('should report too few arguments', () => {
+      const result = lintHiseScript('Synth.addNoteOn(1, 60);', SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.issues[0].rule, 'argument-count');
+      assert.strictEqual(result.issues[0].suggestion, 'Synth.addNoteOn(int channel, int noteNumber, int velocity, int timeStampSamples)');
+    });
+
+    it('should not split on commas inside nested brackets or strings', () => {
+      const result = lintHiseScript('Console.print([1, 2, 3]);\nConsole.print("a, b");\nConsole.print(Math.max(1, 2));', SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.issues.length, 0);
+    });
+  });
+
+  describe('deprecated methods', () => {
+    it('should warn on deprecated calls without failing validation', () => {
+      const result = lintHiseScript('Engine.loadFont("font.ttf");', SAMPLE_API_INDEX);
+
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.issues[0].rule, 'deprecated');
+      assert.strictEqual(result.issues[0].severity, 'warning');
+      assert.strictEqual(result.issues[0].suggestion, 'Use loadFontAs() instead');
+    });
+  });
+});
+
+describe('maskStringsAndComments', () => {
+  it('should preserve length and line breaks', () => {
+    const script = 'var a = "x\\"y"; // note\n/* multi\nline */ var b;';
+    const masked = maskStringsAndComments(script);
+
+    assert.strictEqual(masked.length, script.length);
+    assert.strictEqual(masked.split('\n').length, script.split('\n').length);
+    assert.ok(!masked.includes('note'));
+    assert.ok(masked.includes('var b;'));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { join, resolve } from 'path';
+import { resolvePathInFolder } from '../../src/script-utils.ts';
+
+const SCRIPTS = resolve('/projects/MyPlugin/Scripts');
+
+describe('resolvePathInFolder', () => {
+  it('should resolve relative paths against the folder', () => {
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, 'ExternalStuff.js'), join(SCRIPTS, 'ExternalStuff.js'));
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, 'sub/Helpers.js'), join(SCRIPTS, 'sub', 'Helpers.js'));
+  });
+
+  it('should accept absolute paths inside the folder', () => {
+    const file = join(SCRIPTS, 'ExternalStuff.js');
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, file), file);
+  });
+
+  it('should allow ".." segments that stay inside the folder', () => {
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, 'sub/../Main.js'), join(SCRIPTS, 'Main.js'));
+  });
+
+  it('should reject paths that escape the folder', () => {
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, '../Preset.xml'), null);
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, 'sub/../../../secret.txt'), null);
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, resolve('/etc/passwd')), null);
+  });
+
+  it('should reject sibling folders with the same prefix', () => {
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, resolve('/projects/MyPlugin/ScriptsBackup/a.js')), null);
+  });
+
+  it('should reject the folder itself', () => {
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, '.'), null);
+    assert.strictEqual(resolvePathInFolder(SCRIPTS, SCRIPTS), null);
+  });
+});
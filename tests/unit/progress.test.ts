@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { ProgressCounter } from '../../src/progress.ts';
+
+describe('ProgressCounter', () => {
+  it('should count up without a total for plain messages', () => {
+    const counter = new ProgressCounter();
+
+    assert.deepStrictEqual(counter.next(), { progress: 0.5 });
+    assert.deepStrictEqual(counter.next(), { progress: 0.75 });
+  });
+
+  it('should report counted steps with their total and stay between them for other messages', () => {
+    const counter = new ProgressCounter();
+    counter.next();
+
+    assert.deepStrictEqual(counter.next({ current: 1, total: 3 }), { progress: 1, total: 3 });
+    assert.deepStrictEqual(counter.next(), { progress: 1.5, total: 3 });
+    assert.deepStrictEqual(counter.next({ current: 2, total: 3 }), { progress: 2, total: 3 });
+  });
+
+  it('should continue after the previous total when counting starts over', () => {
+    const counter = new ProgressCounter();
+    counter.next({ current: 1, total: 2 });
+    counter.next({ current: 2, total: 2 });
+    counter.next();
+
+    assert.deepStrictEqual(counter.next({ current: 1, total: 3 }), { progress: 3, total: 5 });
+    assert.deepStrictEqual(counter.next({ current: 3, total: 3 }), { progress: 5, total: 5 });
+  });
+
+  it('should always increase', () => {
+    const counter = new ProgressCounter();
+    const steps = [undefined, { current: 2, total: 4 }, undefined, { current: 1, total: 2 }, undefined, { current: 4, total: 4 }];
+    let last = 0;
+    for (const step of steps) {
+      const { progress } = counter.next(step);
+      assert.ok(progress > last, `${progress} after ${last}`);
+      last = progress;
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkSchema, validateHiseResponse } from '../../src/response-schemas.ts';
+
+const STATUS = {
+  success: true,
+  server: { version: '4.1.0', compileTimeout: '5' },
+  project: { name: 'Demo', projectFolder: '/p', scriptsFolder: '/p/Scripts' },
+  scriptProcessors: [{ moduleId: 'Interface', isMainInterface: true, externalFiles: [], callbacks: [{ id: 'onInit', empty: false }] }],
+  logs: [],
+  errors: [],
+};
+
+describe('validateHiseResponse', () => {
+  it('should accept responses matching the types', () => {
+    assert.deepStrictEqual(validateHiseResponse('/api/status', STATUS), []);
+    assert.deepStrictEqual(validateHiseResponse('/api/get_script?moduleId=Interface', {
+      success: true,
+      moduleId: 'Interface',
+      callbacks: { onInit: 'Content.makeFrontInterface(600, 400);' },
+      externalFiles: [],
+      logs: [],
+      errors: [],
+    }), []);
+  });
+
+  it('should report paths of mismatching fields', () => {
+    const changed = { ...STATUS, scriptProcessors: [{ ...STATUS.scriptProcessors[0], moduleId: 7 }] };
+
+    assert.deepStrictEqual(validateHiseResponse('/api/status', changed), [
+      'scriptProcessors[0].moduleId: expected string, got number',
+    ]);
+  });
+
+  it('should report missing fields', () => {
+    const { project: _project, ...withoutProject } = STATUS;
+
+    assert.deepStrictEqual(validateHiseResponse('/api/status', withoutProject), ['project: expected object, got undefined']);
+  });
+
+  it('should only check the envelope of failed responses', () => {
+    assert.deepStrictEqual(validateHiseResponse('/api/get_script', {
+      success: false,
+      errors: [{ errorMessage: 'Module Missing not found', callstack: [] }],
+    }), []);
+    assert.deepStrictEqual(validateHiseResponse('/api/get_script', { success: 'no', errors: [{}] }), [
+      'success: expected boolean, got string',
+      'errors[0].errorMessage: expected string, got undefined',
+    ]);
+  });
+
+  it('should reject non-object responses', () => {
+    assert.deepStrictEqual(validateHiseResponse('/api/status', []), ['response: expected object, got array']);
+  });
+});
+
+describe('checkSchema', () => {
+  it('should accept any of the oneOf options', () => {
+    const schema = { kind: 'oneOf' as const, options: [{ kind: 'string' as const }, { kind: 'number' as const }] };
+
+    assert.deepStrictEqual(checkSchema(1, schema, 'value'), []);
+    assert.deepStrictEqual(checkSchema(null, schema, 'value'), ['value: unexpected null']);
+  });
+});
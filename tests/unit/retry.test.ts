@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { CircuitBreaker, computeBackoff, sleep } from '../../src/retry.ts';
+
+describe('computeBackoff', () => {
+  it('should double the delay per attempt up to the maximum', () => {
+    assert.deepStrictEqual([0, 1, 2, 3, 4].map(a => computeBackoff(a, 250, 2000)), [250, 500, 1000, 2000, 2000]);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  function createBreaker() {
+    const clock = { now: 0 };
+    const breaker = new CircuitBreaker(3, 1000, () => clock.now);
+    return { clock, breaker };
+  }
+
+  it('should open after consecutive failures', () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    assert.strictEqual(breaker.canRequest(), true);
+
+    breaker.recordFailure();
+    assert.strictEqual(breaker.canRequest(), false);
+    assert.deepStrictEqual(breaker.getState(), { state: 'open', consecutiveFailures: 3, retryInMs: 1000 });
+  });
+
+  it('should reset the count on success', () => {
+    const { breaker } = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    assert.strictEqual(breaker.getState().state, 'closed');
+  });
+
+  it('should let a trial through after the cooldown and close on success', () => {
+    const { clock, breaker } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    clock.now = 400;
+    assert.strictEqual(breaker.getState().retryInMs, 600);
+
+    clock.now = 1000;
+    assert.strictEqual(breaker.getState().state, 'half-open');
+    assert.strictEqual(breaker.canRequest(), true);
+
+    breaker.recordSuccess();
+    assert.strictEqual(breaker.getState().state, 'closed');
+  });
+
+  it('should let only one trial through at a time', () => {
+    const { clock, breaker } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    clock.now = 1000;
+    assert.strictEqual(breaker.canRequest(), true);
+    assert.strictEqual(breaker.canRequest(), false);
+    assert.strictEqual(breaker.getState().state, 'half-open');
+
+    breaker.releaseTrial();
+    assert.strictEqual(breaker.canRequest(), true);
+  });
+
+  it('should reopen when the trial fails', () => {
+    const { clock, breaker } = createBreaker();
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    clock.now = 1500;
+    breaker.recordFailure();
+    assert.strictEqual(breaker.canRequest(), false);
+    assert.strictEqual(breaker.getState().retryInMs, 1000);
+  });
+});
+
+describe('sleep', () => {
+  it('should end early when the signal aborts', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 10);
+
+    await sleep(5000, controller.signal);
+    assert.ok(Date.now() - started < 1000);
+  });
+});
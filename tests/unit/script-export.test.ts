@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { classifyImport, parseExportManifest, toExportFolderName } from '../../src/script-export.ts';
+
+describe('toExportFolderName', () => {
+  it('should replace unsafe characters and keep names unique', () => {
+    const taken = new Set<string>(['includes']);
+
+    assert.strictEqual(toExportFolderName('Script FX1', taken), 'Script FX1');
+    assert.strictEqual(toExportFolderName('A/B:C', taken), 'A_B_C');
+    assert.strictEqual(toExportFolderName('a_b_c', taken), 'a_b_c_2');
+    assert.strictEqual(toExportFolderName('includes', taken), 'includes_');
+    assert.strictEqual(toExportFolderName('..', taken), 'module');
+  });
+});
+
+describe('parseExportManifest', () => {
+  it('should accept a version 1 manifest', () => {
+    const manifest = parseExportManifest(JSON.stringify({
+      version: 1,
+      project: 'Demo',
+      exportedAt: '2026-01-01T00:00:00.000Z',
+      processors: { Interface: { folder: 'Interface', callbacks: { onInit: 'abc' } } },
+      includes: {},
+    }));
+
+    assert.strictEqual(manifest.processors.Interface.callbacks.onInit, 'abc');
+  });
+
+  it('should reject other files', () => {
+    assert.throws(() => parseExportManifest('{'), /not valid JSON/);
+    assert.throws(() => parseExportManifest('{"name":"package"}'), /not a HISE script export/);
+    assert.throws(
+      () => parseExportManifest('{"version":1,"processors":{"Interface":{}},"includes":{}}'),
+      /processor "Interface" needs a folder/
+    );
+  });
+});
+
+describe('classifyImport', () => {
+  it('should compare the file and HISE against the exported hash', () => {
+    assert.strictEqual(classifyImport('a', 'a', 'x'), 'unchanged');
+    assert.strictEqual(classifyImport('b', 'a', 'a'), 'apply');
+    assert.strictEqual(classifyImport('a', 'b', 'a'), 'changedInHise');
+    assert.strictEqual(classifyImport('b', 'c', 'a'), 'conflict');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { ScriptHistory } from '../../src/script-history.ts';
+
+function snapshot(script: string, hash: string) {
+  return { script, hash, timestamp: Date.now() };
+}
+
+describe('ScriptHistory', () => {
+  it('should list snapshots newest first', () => {
+    const history = new ScriptHistory();
+    history.record('Interface:onInit', snapshot('a', 'aaaa'));
+    history.record('Interface:onInit', snapshot('b', 'bbbb'));
+
+    assert.deepStrictEqual(history.list('Interface:onInit').map(s => s.hash), ['bbbb', 'aaaa']);
+  });
+
+  it('should skip a snapshot identical to the most recent one', () => {
+    const history = new ScriptHistory();
+    assert.strictEqual(history.record('Interface:onInit', snapshot('a', 'aaaa')), true);
+    assert.strictEqual(history.record('Interface:onInit', snapshot('a', 'aaaa')), false);
+
+    assert.strictEqual(history.list('Interface:onInit').length, 1);
+  });
+
+  it('should drop the oldest snapshots beyond the limit', () => {
+    const history = new ScriptHistory(2);
+    history.record('Interface:onInit', snapshot('a', 'aaaa'));
+    history.record('Interface:onInit', snapshot('b', 'bbbb'));
+    history.record('Interface:onInit', snapshot('c', 'cccc'));
+
+    assert.deepStrictEqual(history.list('Interface:onInit').map(s => s.hash), ['cccc', 'bbbb']);
+  });
+
+  it('should keep separate histories per key', () => {
+    const history = new ScriptHistory();
+    history.record('Interface:onInit', snapshot('a', 'aaaa'));
+    history.record('Interface:onNoteOn', snapshot('b', 'bbbb'));
+
+    assert.strictEqual(history.list('Interface:onInit').length, 1);
+    assert.deepStrictEqual(history.keys().sort(), ['Interface:onInit', 'Interface:onNoteOn']);
+  });
+
+  describe('find', () => {
+    const history = new ScriptHistory();
+    history.record('Interface:onInit', snapshot('a', 'aaaa1111'));
+    history.record('Interface:onInit', snapshot('b', 'aaaa2222'));
+    history.record('Interface:onInit', snapshot('c', 'cccc3333'));
+
+    it('should return the most recent snapshot without a hash', () => {
+      assert.strictEqual(history.find('Interface:onInit')?.script, 'c');
+    });
+
+    it('should find a snapshot by unique hash prefix', () => {
+      assert.strictEqual(history.find('Interface:onInit', 'aaaa2')?.script, 'b');
+    });
+
+    it('should return null for an ambiguous prefix', () => {
+      assert.strictEqual(history.find('Interface:onInit', 'aaaa'), null);
+    });
+
+    it('should return null for an unknown key', () => {
+      assert.strictEqual(history.find('Other:onInit'), null);
+    });
+  });
+});
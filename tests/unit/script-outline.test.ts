@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { outlineHiseScript } from '../../src/script-analysis.ts';
+
+describe('outlineHiseScript', () => {
+  const script = `Content.makeFrontInterface(600, 400);
+
+const var Knob1 = Content.getComponent("Knob1");
+reg counter = 0;
+// const var Commented = 1;
+const var knobs = [
+\tContent.getComponent("A"),
+];
+
+namespace Synth
+{
+\tconst var GAIN = "const var x = 1;";
+\tinline function setGain(value)
+\t{
+\t\tlocal x = value;
+\t}
+}
+
+Panel1.setPaintRoutine(function(g)
+{
+\tconst var inner = 1;
+});
+
+function onTimer()
+{
+}`;
+
+  it('should list top-level declarations with line ranges', () => {
+    const outline = outlineHiseScript(script);
+
+    assert.strictEqual(outline.lineCount, 26);
+    assert.deepStrictEqual(outline.symbols, [
+      { kind: 'component', name: 'Knob1', startLine: 3, endLine: 3, componentId: 'Knob1' },
+      { kind: 'reg', name: 'counter', startLine: 4, endLine: 4 },
+      { kind: 'const var', name: 'knobs', startLine: 6, endLine: 8 },
+      { kind: 'namespace', name: 'Synth', startLine: 10, endLine: 17 },
+      { kind: 'const var', name: 'GAIN', startLine: 12, endLine: 12, namespace: 'Synth' },
+      { kind: 'inline function', name: 'setGain', startLine: 13, endLine: 16, namespace: 'Synth' },
+      { kind: 'function', name: 'onTimer', startLine: 24, endLine: 26 },
+    ]);
+  });
+
+  it('should keep component IDs that differ from the variable name', () => {
+    const outline = outlineHiseScript(`const var gain = Content.getComponent('knbGain');`);
+
+    assert.deepStrictEqual(outline.symbols[0], { kind: 'component', name: 'gain', startLine: 1, endLine: 1, componentId: 'knbGain' });
+  });
+
+  it('should end a declaration without semicolon at the enclosing block', () => {
+    const outline = outlineHiseScript('namespace A\n{\n\tconst var x = 1\n}\nconst var y = 2;');
+
+    assert.deepStrictEqual(outline.symbols.map(s => [s.name, s.startLine, s.endLine]), [
+      ['A', 1, 4],
+      ['x', 3, 3],
+      ['y', 5, 5],
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { findIdentifierReferences, isReservedWord, isValidSymbolName } from '../../src/script-analysis.ts';
+
+describe('findIdentifierReferences', () => {
+  const script = `const var Knob1 = Content.getComponent("Knob1");
+const var Knob10 = 1;
+Knob1.setValue(0); // Knob1
+
+namespace Synth
+{
+\tconst var Knob1 = 2;
+\tinline function setGain(v) { Knob1 = v; Console.print(Synth.Knob1); }
+}
+
+Synth.setGain(1);
+other.Synth.setGain(2);
+Synth . setGain(3);`;
+
+  const positions = (name: string) => findIdentifierReferences(script, name).map(o => `${o.line}:${o.column}`);
+
+  it('should skip strings, comments, longer identifiers and shadowing namespaces', () => {
+    assert.deepStrictEqual(positions('Knob1'), ['1:11', '3:1']);
+  });
+
+  it('should find namespace members qualified and inside their namespace', () => {
+    assert.deepStrictEqual(positions('Synth.Knob1'), ['7:12', '8:31', '8:62']);
+    assert.deepStrictEqual(positions('Synth.setGain'), ['8:18', '11:7', '13:9']);
+  });
+
+  it('should not treat members of other objects as references', () => {
+    assert.deepStrictEqual(positions('setGain'), []);
+    assert.deepStrictEqual(positions('Synth'), ['5:11', '8:56', '11:1', '13:1']);
+  });
+
+  it('should skip object literal keys', () => {
+    const source = `const var volume = 1;
+const var data = {volume: 0.5, "x": volume, pan: { volume : 2 }};
+const var mode = volume > 0 ? volume : 0;
+Console.print(data.volume + volume);`;
+
+    const found = findIdentifierReferences(source, 'volume').map(o => `${o.line}:${o.column}`);
+    assert.deepStrictEqual(found, ['1:11', '2:37', '3:18', '3:31', '4:29']);
+  });
+
+  it('should skip functions with a parameter or local of the same name', () => {
+    const source = `const var volume = 1;
+inline function f(volume) { return volume * 2; }
+inline function g(x) { local volume = x; return volume; }
+function h() { Console.print(volume); }
+Panel1.setPaintRoutine(function(g) { var volume = 0; });
+Console.print(volume);`;
+
+    const found = findIdentifierReferences(source, 'volume').map(o => `${o.line}:${o.column}`);
+    assert.deepStrictEqual(found, ['1:11', '4:30', '6:15']);
+  });
+
+  it('should report offsets of the member only', () => {
+    const [first] = findIdentifierReferences('Synth.setGain(1);', 'Synth.setGain');
+
+    assert.deepStrictEqual(first, { offset: 6, length: 7, line: 1, column: 7 });
+  });
+
+  it('should reject names that are not identifiers', () => {
+    assert.strictEqual(isValidSymbolName('Synth.setGain'), true);
+    assert.strictEqual(isValidSymbolName('a.b.c'), false);
+    assert.throws(() => findIdentifierReferences(script, 'Knob1('), /Invalid symbol name/);
+  });
+
+  it('should know HiseScript keywords', () => {
+    assert.strictEqual(isReservedWord('reg'), true);
+    assert.strictEqual(isReservedWord('Knob1'), false);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { buildSearchRegex, findMatches } from '../../src/script-search.ts';
+
+describe('buildSearchRegex', () => {
+  it('should escape literal queries', () => {
+    const regex = buildSearchRegex('Engine.getSampleRate()');
+
+    assert.ok(regex.test('var sr = engine.getSampleRate();'));
+    assert.ok(!buildSearchRegex('a.b').test('axb'));
+  });
+
+  it('should honour caseSensitive', () => {
+    assert.ok(!buildSearchRegex('knob1', false, true).test('Knob1'));
+  });
+
+  it('should reject invalid, empty and empty-matching patterns', () => {
+    assert.throws(() => buildSearchRegex('(x', true), /Invalid regex "\(x"/);
+    assert.throws(() => buildSearchRegex(''), /must not be empty/);
+    assert.throws(() => buildSearchRegex('x*', true), /matches empty text/);
+  });
+});
+
+describe('findMatches', () => {
+  it('should report each matching line once with 1-based positions', () => {
+    const text = 'const var Knob1 = Content.getComponent("Knob1");\n\nKnob1.setValue(0);';
+
+    assert.deepStrictEqual(findMatches(text, buildSearchRegex('Knob1')), [
+      { line: 1, column: 11 },
+      { line: 3, column: 1 },
+    ]);
+  });
+
+  it('should not match across lines', () => {
+    assert.deepStrictEqual(findMatches('foo\nbar', buildSearchRegex('foo\\nbar', true)), []);
+  });
+});
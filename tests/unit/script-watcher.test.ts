@@ -0,0 +1,77 @@
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ScriptWatcher } from '../../src/script-watcher.ts';
+
+describe('ScriptWatcher', () => {
+  let directory: string;
+  let watcher: ScriptWatcher | null = null;
+
+  before(() => {
+    directory = mkdtempSync(join(tmpdir(), 'script-watcher-'));
+    mkdirSync(join(directory, 'Interface'));
+  });
+
+  after(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+  });
+
+  it('should report saved files in subfolders as one batch', async () => {
+    const batches: string[][] = [];
+    const reported = new Promise<void>(resolve => {
+      watcher = new ScriptWatcher(directory, async files => { batches.push(files); resolve(); }, 50, ['hise-scripts.json']);
+    });
+    watcher!.start();
+
+    writeFileSync(join(directory, 'hise-scripts.json'), '{}');
+    writeFileSync(join(directory, 'Interface', 'onInit.js'), 'Content.makeFrontInterface(600, 400);');
+    writeFileSync(join(directory, 'Interface', 'onControl.js'), 'function onControl(number, value) {}');
+    await reported;
+
+    assert.deepStrictEqual(batches, [['Interface/onControl.js', 'Interface/onInit.js']]);
+  });
+
+  it('should not overlap batches', async () => {
+    const batches: string[][] = [];
+    let active = 0;
+    let overlapped = false;
+    watcher = new ScriptWatcher(directory, async files => {
+      overlapped ||= active > 0;
+      active++;
+      batches.push(files);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+    }, 60000);
+    watcher.start();
+
+    writeFileSync(join(directory, 'Interface', 'onInit.js'), '// first');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const first = watcher.flush();
+    writeFileSync(join(directory, 'Interface', 'onNoteOn.js'), '// second');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await Promise.all([first, watcher.flush()]);
+
+    assert.strictEqual(overlapped, false);
+    assert.deepStrictEqual(batches, [['Interface/onInit.js'], ['Interface/onNoteOn.js']]);
+  });
+
+  it('should report files in folders created after start', async () => {
+    const batches: string[][] = [];
+    const reported = new Promise<void>(resolve => {
+      watcher = new ScriptWatcher(directory, async files => { batches.push(files); resolve(); }, 100);
+    });
+    watcher!.start();
+
+    mkdirSync(join(directory, 'Synth'));
+    writeFileSync(join(directory, 'Synth', 'onInit.js'), '// new processor');
+    await reported;
+
+    assert.ok(batches[0].includes('Synth/onInit.js'), batches[0].join(', '));
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createUnifiedDiff } from '../../src/script-utils.ts';
+import { SIMPLE_SCRIPT } from '../fixtures/sample-scripts.ts';
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty string for identical scripts', () => {
+    assert.strictEqual(createUnifiedDiff(SIMPLE_SCRIPT, SIMPLE_SCRIPT), '');
+  });
+
+  it('should produce headers and a single hunk for one changed line', () => {
+    const changed = SIMPLE_SCRIPT.replace('const value = 123;', 'const value = 456;');
+    const diff = createUnifiedDiff(SIMPLE_SCRIPT, changed, 'Interface.onInit', 'Interface.onInit (new)');
+
+    assert.strictEqual(diff, [
+      '--- Interface.onInit',
+      '+++ Interface.onInit (new)',
+      '@@ -1,5 +1,5 @@',
+      ' const Component = Content.getComponent("Panel");',
+      '-const value = 123;',
+      '+const value = 456;',
+      ' const name = "test";',
+      ' Component.setValue(value);',
+      ' Component.repaint();',
+    ].join('\n'));
+  });
+
+  it('should report added and removed lines with correct counts', () => {
+    const diff = createUnifiedDiff('a\nb\nc', 'a\nc\nd');
+
+    assert.ok(diff.includes('@@ -1,3 +1,3 @@'));
+    assert.ok(diff.includes('-b'));
+    assert.ok(diff.includes('+d'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const original = Array.from({ length: 50 }, (_, i) => `const x${i} = ${i};`);
+    const lines = [...original];
+    lines[2] = 'const first = 1;';
+    lines[40] = 'const second = 2;';
+    const diff = createUnifiedDiff(original.join('\n'), lines.join('\n'));
+
+    const hunkHeaders = diff.split('\n').filter(l => l.startsWith('@@'));
+    assert.deepStrictEqual(hunkHeaders, ['@@ -1,6 +1,6 @@', '@@ -38,7 +38,7 @@']);
+  });
+
+  it('should handle diffs against an empty script', () => {
+    const diff = createUnifiedDiff('', 'Console.print("x");');
+
+    assert.strictEqual(diff, '--- a\n+++ b\n@@ -0,0 +1,1 @@\n+Console.print("x");');
+  });
+});